@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AUTH_METHODS, authenticateToken, clientIp, setSessionCookie } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { enforceLoginLimit } from "@/lib/ratelimit";
+import { verifyPassword } from "@/lib/users";
+
+// Sign in with { name, password } from the local user store, or with
+// { token } from AUTH_TOKENS. Responds with the user and sets the session cookie.
+export async function POST(req: NextRequest) {
+  try {
+    enforceLoginLimit(clientIp(req));
+    const { name, password, token } = await req.json();
+
+    const user =
+      token !== undefined
+        ? authenticateToken(token)
+        : AUTH_METHODS.includes("password")
+          ? await verifyPassword(name, password)
+          : null;
+    if (!user) {
+      throw new HttpError(401, token !== undefined ? "Unknown API token" : "Wrong user name or password");
+    }
+
+    const res = NextResponse.json({ user });
+    setSessionCookie(res, user);
+    return res;
+  } catch (error: unknown) {
+    return errorResponse(error, "Login error");
+  }
+}
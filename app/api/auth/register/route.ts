@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ALLOW_SIGNUP, AUTH_METHODS, clientIp, setSessionCookie } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { enforceLoginLimit } from "@/lib/ratelimit";
+import { createUser, hasUsers } from "@/lib/users";
+
+// Add a user to the local store and sign them in. The first user can always
+// register; after that only when AUTH_ALLOW_SIGNUP is set.
+export async function POST(req: NextRequest) {
+  try {
+    enforceLoginLimit(clientIp(req));
+    if (!AUTH_METHODS.includes("password") || (!ALLOW_SIGNUP && (await hasUsers()))) {
+      throw new HttpError(403, "Registration is closed");
+    }
+
+    const { name, password } = await req.json();
+    const user = await createUser(name, password, !ALLOW_SIGNUP);
+
+    const res = NextResponse.json({ user }, { status: 201 });
+    setSessionCookie(res, user);
+    return res;
+  } catch (error: unknown) {
+    return errorResponse(error, "Register error");
+  }
+}
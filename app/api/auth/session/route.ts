@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authEnabled, getUser, signInOptions } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+
+// Who the caller is, and how they may sign in when they aren't anyone yet.
+export async function GET(req: NextRequest) {
+  try {
+    return NextResponse.json({ enabled: authEnabled, user: getUser(req), ...(await signInOptions()) });
+  } catch (error: unknown) {
+    return errorResponse(error, "Session error");
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp, requireUser } from "@/lib/auth";
+import { crossfadeFrames, resolveBridgeEnd } from "@/lib/bridge";
+import { findCachedVideo, generationKey, runCachedImageToVideo } from "@/lib/cache";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { extractFirstFrame, extractLastFrame } from "@/lib/frames";
+import { prepareImage } from "@/lib/images";
+import { startJob, type JobRunner } from "@/lib/jobs";
+import { getProject } from "@/lib/projects";
+import { enforceGenerationLimits, enforceRenderLimits } from "@/lib/ratelimit";
+import { clipSettings, explorePrompt, MODELS, parseSettings } from "@/lib/settings";
+import { checkBudget, estimateCredits, trackUsage } from "@/lib/usage";
+
+// Prompt for a bridge when none is given
+const DEFAULT_BRIDGE_PROMPT = "A smooth, continuous transition from the first shot into the second";
+
+// Generate a transition from the end of one clip into the start of another,
+// both from a saved project. Models that accept a last frame are given both
+// keyframes; otherwise the two frames are crossfaded locally, at no cost.
+// Poll /api/jobs/[id] for the clip.
+export async function POST(req: NextRequest) {
+  try {
+    const user = requireUser(req);
+    const body = await req.json();
+    const { projectId, from, to, prompt, nodeId } = body;
+
+    if (!projectId) throw new HttpError(400, "projectId is required", "projectId");
+    if (prompt !== undefined && (typeof prompt !== "string" || !prompt.trim())) {
+      throw new HttpError(400, "prompt must be a non-empty string", "prompt");
+    }
+    if (nodeId !== undefined && (typeof nodeId !== "string" || !nodeId)) {
+      throw new HttpError(400, "nodeId must be a node ID", "nodeId");
+    }
+    const settings = parseSettings(body.settings);
+
+    const project = await getProject(projectId);
+    if (!project) throw new HttpError(404, "Project not found", "projectId");
+
+    const start = resolveBridgeEnd(project, from, "from");
+    const end = resolveBridgeEnd(project, to, "to");
+    if (start.clip === end.clip) throw new HttpError(400, "Pick two different clips to bridge", "to");
+
+    // Limits are checked before the frames are extracted, as that already
+    // runs ffmpeg. A crossfade is a local render; keyframes go to the provider.
+    const ip = clientIp(req);
+    const keyframes = MODELS[settings.model].supportsLastFrame;
+    if (keyframes) {
+      enforceRenderLimits(user, ip, 0);
+      enforceGenerationLimits(user, ip, 1);
+    } else {
+      enforceRenderLimits(user, ip, 1);
+    }
+
+    // The end of the first clip leads into the frame the second started from
+    const { image: lastOfStart, time: captureTime } = await extractLastFrame(start.videoUrl, "from");
+    const firstOfEnd = end.frameImage ?? (await extractFirstFrame(end.videoUrl, "to")).image;
+    const promptImage = await prepareImage(lastOfStart, "from", settings.ratio);
+    const lastFrame = await prepareImage(firstOfEnd, "to", settings.ratio);
+
+    const userPrompt = prompt?.trim() ?? DEFAULT_BRIDGE_PROMPT;
+    const promptText = explorePrompt(settings.templates, userPrompt);
+    const clip = clipSettings(settings);
+
+    let run: JobRunner;
+    let credits = 0;
+    let cached = false;
+    if (keyframes) {
+      const request = { ...clip, promptImage, lastFrame, promptText };
+      const key = generationKey(request);
+      const videoUrl = body.force === true ? null : await findCachedVideo(key);
+      cached = videoUrl !== null;
+      credits = cached ? 0 : estimateCredits(settings.model, settings.duration);
+      await checkBudget(projectId, credits);
+
+      run = videoUrl
+        ? async () => videoUrl
+        : (update, signal) =>
+            trackUsage(
+              { projectId, kind: "bridge", model: clip.model, duration: clip.duration },
+              () => runCachedImageToVideo(key, request, update, signal),
+              signal
+            );
+    } else {
+      run = (update, signal) => crossfadeFrames(promptImage, lastFrame, settings.ratio, settings.duration, update, signal);
+    }
+
+    const job = startJob("bridge", run, { sourceClip: start.clip, captureTime, projectId, nodeId }, user.id);
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        mode: keyframes ? "keyframes" : "crossfade",
+        prompt: userPrompt,
+        promptText,
+        settings: clip,
+        cached,
+        frameImage: promptImage,
+        bridge: { from: start.clip, to: end.clip },
+        parentIndex: start.index,
+        sourceClip: start.clip,
+        captureTime,
+        credits,
+      },
+      { status: 202 }
+    );
+  } catch (error: unknown) {
+    return errorResponse(error, "Bridge error");
+  }
+}
@@ -1,38 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import RunwayML from "@runwayml/sdk";
-
-const client = new RunwayML({
-  apiKey: process.env.RUNWAYML_API_SECRET,
-});
+import { clientIp, requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+import { startExplore } from "@/lib/generation";
 
+// Generate new clips from a captured frame, or from the end of a stored clip,
+// one job per prompt or variant. Poll /api/jobs/[id] for the clips.
 export async function POST(req: NextRequest) {
   try {
-    const { image, prompt } = await req.json();
-
-    if (!image || !prompt) {
-      return NextResponse.json(
-        { error: "Image and prompt are required" },
-        { status: 400 }
-      );
-    }
-
-    const result = await client.imageToVideo
-      .create({
-        model: "gen4_turbo",
-        promptImage: image,
-        promptText: prompt,
-        ratio: "1280:720",
-        duration: 10,
-      })
-      .waitForTaskOutput({ timeout: 10 * 60 * 1000 });
-
-    return NextResponse.json({
-      videoUrl: result.output?.[0] ?? null,
-    });
+    const user = requireUser(req);
+    const generation = await startExplore(user, clientIp(req), await req.json());
+    return NextResponse.json(generation, { status: 202 });
   } catch (error: unknown) {
-    console.error("Runway explore error:", error);
-    const message =
-      error instanceof Error ? error.message : "Video generation failed";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error, "Runway explore error");
   }
 }
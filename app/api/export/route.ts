@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp, requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { exportFilm, MAX_CROSSFADE, resolveFilmPath } from "@/lib/film";
+import { startJob } from "@/lib/jobs";
+import { getProject } from "@/lib/projects";
+import { enforceRenderLimits } from "@/lib/ratelimit";
+
+// Stitch a root-to-leaf exploration path into one film. Rendering runs as a
+// background job; poll /api/jobs/[id] for the exported video URL.
+export async function POST(req: NextRequest) {
+  try {
+    const user = requireUser(req);
+    const { projectId, nodeIds, crossfade = 0 } = await req.json();
+
+    if (!projectId || !Array.isArray(nodeIds)) {
+      throw new HttpError(400, "projectId and nodeIds are required");
+    }
+    if (typeof crossfade !== "number" || crossfade < 0 || crossfade > MAX_CROSSFADE) {
+      throw new HttpError(400, `crossfade must be between 0 and ${MAX_CROSSFADE} seconds`);
+    }
+
+    const project = await getProject(projectId);
+    if (!project) throw new HttpError(404, "Project not found");
+
+    const segments = resolveFilmPath(project, nodeIds);
+    enforceRenderLimits(user, clientIp(req), 1);
+    const job = startJob("export", (update, signal) => exportFilm(segments, crossfade, update, signal), {}, user.id);
+
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (error: unknown) {
+    return errorResponse(error, "Export error");
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authEnabled, clientIp, requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { MAX_FILMSTRIP_FRAMES, renderFilmstrip } from "@/lib/frames";
+import { enforceRenderLimits } from "@/lib/ratelimit";
+
+const DEFAULT_FRAMES = 12;
+
+// Thumbnails across a stored clip, side by side in one JPEG:
+// ?video=<media URL>&count=<thumbnails>.
+export async function GET(req: NextRequest) {
+  try {
+    const user = requireUser(req);
+    const { searchParams } = req.nextUrl;
+    const count = Number(searchParams.get("count") ?? DEFAULT_FRAMES);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_FILMSTRIP_FRAMES) {
+      throw new HttpError(400, `count must be between 1 and ${MAX_FILMSTRIP_FRAMES}`, "count");
+    }
+
+    enforceRenderLimits(user, clientIp(req), 0);
+
+    const strip = await renderFilmstrip(searchParams.get("video"), count, "video");
+    return new NextResponse(new Uint8Array(strip), {
+      headers: {
+        "Content-Type": "image/jpeg",
+        // Keyed by the clip's content hash, like the media it comes from
+        "Cache-Control": `${authEnabled ? "private" : "public"}, max-age=31536000, immutable`,
+      },
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, "Filmstrip error");
+  }
+}
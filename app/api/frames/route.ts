@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp, requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { extractFrameAt } from "@/lib/frames";
+import { enforceRenderLimits } from "@/lib/ratelimit";
+
+// Extract the exact frame at `time` seconds into a stored clip, losslessly
+// and at full resolution, for use as an explore image.
+export async function POST(req: NextRequest) {
+  try {
+    const user = requireUser(req);
+    const { videoUrl, time } = await req.json();
+    if (typeof time !== "number" || !Number.isFinite(time) || time < 0) {
+      throw new HttpError(400, "time must be a non-negative number of seconds", "time");
+    }
+    enforceRenderLimits(user, clientIp(req), 0);
+    return NextResponse.json(await extractFrameAt(videoUrl, time, "videoUrl"));
+  } catch (error: unknown) {
+    return errorResponse(error, "Frame extraction error");
+  }
+}
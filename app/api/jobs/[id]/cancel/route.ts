@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { cancelJob, getJobFor } from "@/lib/jobs";
+
+// Cancel a queued or running job, along with its provider task.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = requireUser(req);
+    const { id } = await params;
+    const job = getJobFor(id, user.id) && cancelJob(id);
+    if (!job) throw new HttpError(404, "Job not found");
+    return NextResponse.json(job);
+  } catch (error: unknown) {
+    return errorResponse(error, "Cancel error");
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { getJobFor, isFinished, subscribeToJob, type Job } from "@/lib/jobs";
+
+// Comment line sent periodically so proxies don't drop an idle stream.
+const HEARTBEAT_INTERVAL = 15000;
+
+// Stream a job's lifecycle as Server-Sent Events. Each event is named after
+// the job's status (queued, running, succeeded, failed, cancelled) and
+// carries the job as JSON. The current state is sent first, and the stream
+// ends once the job has finished.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let initial: Job;
+  try {
+    const user = requireUser(req);
+    const job = getJobFor((await params).id, user.id);
+    if (!job) throw new HttpError(404, "Job not found");
+    initial = job;
+  } catch (error: unknown) {
+    return errorResponse(error, "Job events error");
+  }
+  const { id } = initial;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let unsubscribe = () => {};
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      const send = (job: Job) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${job.status}\ndata: ${JSON.stringify(job)}\n\n`));
+        if (isFinished(job)) {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      req.signal.addEventListener("abort", cleanup);
+      unsubscribe = subscribeToJob(id, send);
+      send(initial);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp, requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { getJobFor, retryJob } from "@/lib/jobs";
+import { enforceGenerationLimits } from "@/lib/ratelimit";
+
+// Run a failed or cancelled job again. Responds with the new job. Jobs that
+// start waiting on the original from now on get the retry's result, but ones
+// that already failed with it, like a composite whose setting clip failed,
+// stay failed until they are retried too.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = requireUser(req);
+    const { id } = await params;
+    if (!getJobFor(id, user.id)) throw new HttpError(404, "Job not found");
+    enforceGenerationLimits(user, clientIp(req), 1);
+    const job = retryJob(id);
+    if (!job) throw new HttpError(404, "Job not found");
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (error: unknown) {
+    return errorResponse(error, "Retry error");
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { getJobFor } from "@/lib/jobs";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = requireUser(req);
+    const { id } = await params;
+    const job = getJobFor(id, user.id);
+    if (!job) throw new HttpError(404, "Job not found");
+    return NextResponse.json(job);
+  } catch (error: unknown) {
+    return errorResponse(error, "Get job error");
+  }
+}
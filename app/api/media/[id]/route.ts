@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import { authEnabled, requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+import { contentTypeFor, getMediaFile } from "@/lib/media";
+
+// Serves files from the local media store. Supports single byte ranges so
+// <video> elements can seek without downloading the whole clip.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    requireUser(req);
+  } catch (error: unknown) {
+    return errorResponse(error, "Media error");
+  }
+
+  const { id } = await params;
+  const file = await getMediaFile(id);
+
+  if (!file) {
+    return NextResponse.json({ error: "Media not found" }, { status: 404 });
+  }
+
+  const headers = new Headers({
+    "Content-Type": contentTypeFor(id),
+    "Accept-Ranges": "bytes",
+    // Media IDs are content hashes, so a given URL never changes. Shared
+    // caches must not serve it to others once it is behind sign-in.
+    "Cache-Control": `${authEnabled ? "private" : "public"}, max-age=31536000, immutable`,
+  });
+
+  let start = 0;
+  let end = file.size - 1;
+  let status = 200;
+
+  const range = req.headers.get("range");
+  if (range) {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range);
+    const valid = match !== null && (match[1] !== "" || match[2] !== "");
+    if (valid && match[1]) {
+      start = Number(match[1]);
+      if (match[2]) end = Math.min(Number(match[2]), end);
+    } else if (valid) {
+      // Suffix range: the last N bytes
+      start = Math.max(file.size - Number(match[2]), 0);
+    }
+    if (!valid || start > end) {
+      headers.set("Content-Range", `bytes */${file.size}`);
+      return new NextResponse(null, { status: 416, headers });
+    }
+    status = 206;
+    headers.set("Content-Range", `bytes ${start}-${end}/${file.size}`);
+  }
+
+  headers.set("Content-Length", String(end - start + 1));
+  const stream = Readable.toWeb(createReadStream(file.path, { start, end })) as ReadableStream;
+  return new NextResponse(stream, { status, headers });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { createBundle } from "@/lib/bundle";
+import { errorResponse } from "@/lib/errors";
+import { getProject } from "@/lib/projects";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Download a project with all its clips and images as a zip, for importing
+// on another server with /api/projects/import.
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    requireUser(req);
+    const project = await getProject((await params).id);
+    if (!project) return NextResponse.json({ error: "Project not found" }, { status: 404 });
+
+    const bundle = await createBundle(project);
+    const filename = `${project.name.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "project"}.zip`;
+    return new NextResponse(new Uint8Array(bundle), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Length": String(bundle.length),
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: unknown) {
+    return errorResponse(error, "Export bundle error");
+  }
+}
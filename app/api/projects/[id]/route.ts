@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+import { deleteProject, getProject, parseProjectInput, updateProject } from "@/lib/projects";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => NextResponse.json({ error: "Project not found" }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    requireUser(req);
+    const project = await getProject((await params).id);
+    return project ? NextResponse.json(project) : notFound();
+  } catch (error: unknown) {
+    return errorResponse(error, "Get project error");
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    requireUser(req);
+    const input = parseProjectInput(await req.json());
+    const project = await updateProject((await params).id, input);
+    return project ? NextResponse.json(project) : notFound();
+  } catch (error: unknown) {
+    return errorResponse(error, "Update project error");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    requireUser(req);
+    const deleted = await deleteProject((await params).id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound();
+  } catch (error: unknown) {
+    return errorResponse(error, "Delete project error");
+  }
+}
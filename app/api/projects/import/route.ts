@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { MAX_BUNDLE_BYTES, readBundle } from "@/lib/bundle";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { createProject } from "@/lib/projects";
+
+// Create a project from a bundle made by /api/projects/[id]/bundle. The
+// request body is the zip itself.
+export async function POST(req: NextRequest) {
+  try {
+    requireUser(req);
+    const tooLarge = () => new HttpError(413, `Bundles can be at most ${Math.round(MAX_BUNDLE_BYTES / 1024 / 1024)} MB`, "bundle");
+    if (Number(req.headers.get("content-length") ?? 0) > MAX_BUNDLE_BYTES) throw tooLarge();
+
+    const archive = Buffer.from(await req.arrayBuffer());
+    if (archive.length === 0) throw new HttpError(400, "Send the bundle as the request body", "bundle");
+    if (archive.length > MAX_BUNDLE_BYTES) throw tooLarge();
+
+    const project = await createProject(await readBundle(archive));
+    return NextResponse.json(project, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, "Import bundle error");
+  }
+}
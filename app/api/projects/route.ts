@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+import { createProject, listProjects, parseProjectInput } from "@/lib/projects";
+
+export async function GET(req: NextRequest) {
+  try {
+    requireUser(req);
+    return NextResponse.json({ projects: await listProjects() });
+  } catch (error: unknown) {
+    return errorResponse(error, "List projects error");
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    requireUser(req);
+    const input = parseProjectInput(await req.json());
+    const project = await createProject(input);
+    return NextResponse.json(project, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, "Create project error");
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp, requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { startRootGeneration, type RootGeneration } from "@/lib/generation";
+import { startJob } from "@/lib/jobs";
+import { parsePlan, planRunner } from "@/lib/plans";
+import { createProject, deleteProject, updateProject } from "@/lib/projects";
+import { checkBudget, estimateCredits } from "@/lib/usage";
+
+// Plan fields for the generate request fields errors name
+const planField = (field: string | undefined) =>
+  field === "backgroundImage" ? "images.background" : field?.replace(/^personImages\./, "images.");
+
+// Generate a whole exploration tree from a plan, without the page. The
+// project is created and its root clips started straight away, so problems
+// with the photos are reported here; it then fills in as clips finish and
+// can be watched in the page. Poll /api/jobs/[id] for the run itself.
+export async function POST(req: NextRequest) {
+  try {
+    const user = requireUser(req);
+    const ip = clientIp(req);
+    const plan = parsePlan(await req.json());
+
+    const { background, ...personImages } = plan.images;
+    const project = await createProject({
+      name: plan.name,
+      images: Object.fromEntries(Object.entries(plan.images).map(([slot, image]) => [slot, image ?? null])),
+      settings: plan.settings,
+    });
+
+    // Every clip as if none were cached: one per photo, the background's
+    // being the setting pan, and one per step
+    const clipCount = Object.keys(plan.images).length + plan.steps.length;
+    const credits = clipCount * estimateCredits(plan.settings.model, plan.settings.duration);
+    let root: RootGeneration;
+    try {
+      await checkBudget(project.id, credits);
+      root = await startRootGeneration(user, ip, {
+        personImages,
+        backgroundImage: background,
+        settings: plan.settings,
+        projectId: project.id,
+      });
+    } catch (error: unknown) {
+      await deleteProject(project.id);
+      if (error instanceof HttpError && error.field) throw new HttpError(error.status, error.message, planField(error.field));
+      throw error;
+    }
+
+    const job = startJob("run", planRunner(plan, project.id, root, user, ip), { projectId: project.id }, user.id);
+    await updateProject(project.id, { runJobId: job.id });
+
+    return NextResponse.json({ jobId: job.id, projectId: project.id, steps: plan.steps.length, credits }, { status: 202 });
+  } catch (error: unknown) {
+    return errorResponse(error, "Plan run error");
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { CAMERA_MOVES, CAMERA_SPEEDS, LIGHTING_PRESETS, STYLE_PRESETS } from "@/lib/prompts";
+import { DEFAULT_SETTINGS, MAX_SEED, MODELS } from "@/lib/settings";
+
+// The server's default generation settings and what each model accepts, so
+// the settings panel only offers valid combinations. Also the presets the
+// explore prompt builder offers.
+export async function GET() {
+  return NextResponse.json({
+    defaults: DEFAULT_SETTINGS,
+    models: MODELS,
+    maxSeed: MAX_SEED,
+    promptOptions: { camera: CAMERA_MOVES, speed: CAMERA_SPEEDS, lighting: LIGHTING_PRESETS, style: STYLE_PRESETS },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+import { getUsage } from "@/lib/usage";
+
+// Credits spent so far, overall and for ?projectId=, with the configured budgets.
+export async function GET(req: NextRequest) {
+  try {
+    requireUser(req);
+    return NextResponse.json(await getUsage(req.nextUrl.searchParams.get("projectId")));
+  } catch (error: unknown) {
+    return errorResponse(error, "Usage error");
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { errorResponse, HttpError } from "@/lib/errors";
+import { listDeliveries, webhooksEnabled } from "@/lib/webhooks";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Recent webhook delivery attempts for the caller's jobs, newest first;
+// ?limit= caps how many.
+export async function GET(req: NextRequest) {
+  try {
+    const user = requireUser(req);
+    const limit = Number(req.nextUrl.searchParams.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`, "limit");
+    }
+    return NextResponse.json({ enabled: webhooksEnabled(), deliveries: await listDeliveries(user.id, limit) });
+  } catch (error: unknown) {
+    return errorResponse(error, "Webhook deliveries error");
+  }
+}
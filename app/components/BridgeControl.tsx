@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+
+type BridgeControlProps = {
+  clips: { id: string; label: string }[]; // root clip keys and node IDs with a finished video
+  disabled?: boolean;
+  onBridge: (from: string, to: string, prompt: string | undefined) => void;
+};
+
+// Pick two clips and generate a transition from the end of one into the start
+// of the other.
+export default function BridgeControl({ clips, disabled, onBridge }: BridgeControlProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [prompt, setPrompt] = useState("");
+
+  // Fall back to the first two clips until something else is picked
+  const known = (id: string) => clips.some((clip) => clip.id === id);
+  const fromId = known(from) ? from : clips[0]?.id ?? "";
+  const toId = known(to) ? to : clips.find((clip) => clip.id !== fromId)?.id ?? "";
+
+  const select = (value: string, onChange: (value: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="max-w-56 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 disabled:opacity-50"
+    >
+      {clips.map((clip) => (
+        <option key={clip.id} value={clip.id}>{clip.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+      <span>Bridge from</span>
+      {select(fromId, setFrom)}
+      <span>to</span>
+      {select(toId, setTo)}
+      <input
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder="Transition prompt (optional)"
+        disabled={disabled}
+        className="flex-1 min-w-48 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200 placeholder-gray-500 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+      />
+      <button
+        onClick={() => onBridge(fromId, toId, prompt.trim() || undefined)}
+        disabled={disabled || !fromId || !toId || fromId === toId}
+        className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold"
+      >
+        Bridge
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useRef, useState, type KeyboardEvent, type MouseEvent } from "react";
+
+export type ClipMarker = {
+  id: string;
+  time: number; // seconds into the clip
+  label: string;
+};
+
+type ClipPlayerProps = {
+  src: string;
+  className?: string;
+  downloadName?: string;
+  markers?: ClipMarker[]; // where child branches start
+  startAt?: number; // seek here once the clip has loaded
+  onCapture: (time: number) => Promise<void>; // pick the frame at `time` to explore from
+  onMarkerClick?: (id: string) => void;
+};
+
+// Generated clips run at 24 fps, so this is one frame
+const FRAME = 1 / 24;
+const FILMSTRIP_FRAMES = 12;
+
+export const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+
+// A clip with a frame picker: frame and second stepping, keyboard shortcuts
+// and a filmstrip to scrub along, plus its download link and a strip of
+// clickable branch markers. Clicking the paused video also picks its frame.
+export default function ClipPlayer({
+  src,
+  className = "w-full",
+  downloadName,
+  markers = [],
+  startAt,
+  onCapture,
+  onMarkerClick,
+}: ClipPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [filmstripFailed, setFilmstripFailed] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+
+  // Pause and move to `time`, kept inside the clip
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    video.currentTime = Math.min(Math.max(time, 0), duration || video.duration || 0);
+    setCurrentTime(video.currentTime);
+  };
+  const step = (seconds: number) => seek((videoRef.current?.currentTime ?? 0) + seconds);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || capturing) return;
+    video.pause();
+    setCapturing(true);
+    setCaptureError(null);
+    try {
+      await onCapture(video.currentTime);
+    } catch (err: unknown) {
+      setCaptureError(err instanceof Error ? err.message : "Could not capture the frame");
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  // , and . step a frame, [ and ] a second, space plays or pauses and C
+  // captures, anywhere inside the player
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    // Space already toggles a focused video and presses a focused button
+    if (e.key === " " && e.target !== e.currentTarget) return;
+    const video = videoRef.current;
+    const actions: Record<string, () => void> = {
+      ",": () => step(-FRAME),
+      ".": () => step(FRAME),
+      "[": () => step(-1),
+      "]": () => step(1),
+      " ": () => (video?.paused ? void video.play() : video?.pause()),
+      c: () => void capture(),
+    };
+    const action = actions[e.key.toLowerCase()];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+
+  const handleFilmstripClick = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const buttonClass = "px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 disabled:opacity-50";
+
+  return (
+    <div className={className}>
+      <div tabIndex={0} onKeyDown={handleKeyDown} className="rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500">
+        <video
+          ref={videoRef}
+          src={src}
+          controls
+          crossOrigin="anonymous"
+          className="w-full rounded-lg bg-black cursor-pointer"
+          onClick={() => videoRef.current?.paused && capture()}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onLoadedMetadata={(e) => {
+            setDuration(e.currentTarget.duration);
+            if (startAt !== undefined) e.currentTarget.currentTime = startAt;
+          }}
+        />
+        {duration > 0 && !filmstripFailed && (
+          <div onClick={handleFilmstripClick} className="relative mt-1 h-10 cursor-pointer overflow-hidden rounded bg-gray-800">
+            <img
+              src={`/api/frames/filmstrip?video=${encodeURIComponent(src)}&count=${FILMSTRIP_FRAMES}`}
+              alt=""
+              draggable={false}
+              onError={() => setFilmstripFailed(true)}
+              className="w-full h-full object-fill"
+            />
+            <div
+              className="absolute top-0 h-full w-0.5 -ml-px bg-indigo-400 pointer-events-none"
+              style={{ left: `${Math.min(currentTime / duration, 1) * 100}%` }}
+            />
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-1.5 mt-1 text-xs text-gray-400">
+          <button onClick={() => step(-1)} title="Back one second ([)" className={buttonClass}>−1s</button>
+          <button onClick={() => step(-FRAME)} title="Back one frame (,)" className={buttonClass}>◀ Frame</button>
+          <button onClick={() => step(FRAME)} title="Forward one frame (.)" className={buttonClass}>Frame ▶</button>
+          <button onClick={() => step(1)} title="Forward one second (])" className={buttonClass}>+1s</button>
+          <span className="px-1 tabular-nums">
+            {formatTime(currentTime)} · frame {Math.round(currentTime / FRAME) + 1}
+          </span>
+          <button
+            onClick={capture}
+            disabled={capturing}
+            title="Explore from this frame (C)"
+            className="ml-auto px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 text-white"
+          >
+            {capturing ? "Extracting..." : "Use this frame"}
+          </button>
+        </div>
+        {captureError && <p className="mt-1 text-xs text-red-400">{captureError}</p>}
+      </div>
+      {duration > 0 && markers.length > 0 && (
+        <div className="relative h-3 mt-1 bg-gray-800 rounded">
+          {markers.map((marker) => (
+            <button
+              key={marker.id}
+              onClick={() => onMarkerClick?.(marker.id)}
+              title={`${formatTime(marker.time)} — ${marker.label}`}
+              style={{ left: `${Math.min(marker.time / duration, 1) * 100}%` }}
+              className="absolute top-0 w-1.5 h-3 -ml-[3px] rounded-sm bg-amber-400 hover:bg-amber-200"
+            />
+          ))}
+        </div>
+      )}
+      {downloadName && (
+        <a
+          href={src}
+          download={downloadName}
+          className="inline-block mt-2 text-sm text-indigo-400 hover:text-indigo-300"
+        >
+          Download
+        </a>
+      )}
+    </div>
+  );
+}
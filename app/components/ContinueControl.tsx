@@ -0,0 +1,47 @@
+"use client";
+
+import { useState } from "react";
+
+type ContinueControlProps = {
+  defaultPrompt: string; // the clip's own prompt, reused unless changed
+  disabled?: boolean;
+  onContinue: (prompt: string, times: number) => void;
+};
+
+// Most continuations one click may chain
+export const MAX_CONTINUATIONS = 5;
+
+// Extend a clip from its last frame, once or several times in a row.
+export default function ContinueControl({ defaultPrompt, disabled, onContinue }: ContinueControlProps) {
+  const [prompt, setPrompt] = useState("");
+  const [times, setTimes] = useState(1);
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-400">
+      <input
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder={defaultPrompt}
+        disabled={disabled}
+        className="flex-1 min-w-48 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200 placeholder-gray-500 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+      />
+      <select
+        value={times}
+        onChange={(e) => setTimes(Number(e.target.value))}
+        disabled={disabled}
+        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 disabled:opacity-50"
+      >
+        {Array.from({ length: MAX_CONTINUATIONS }, (_, i) => i + 1).map((n) => (
+          <option key={n} value={n}>{n === 1 ? "Once" : `${n} times`}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onContinue(prompt.trim() || defaultPrompt, times)}
+        disabled={disabled}
+        className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold"
+      >
+        Continue from end
+      </button>
+    </div>
+  );
+}
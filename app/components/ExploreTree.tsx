@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { childrenOf } from "@/lib/tree";
+import type { ExploreNode, ExploreNodeStatus } from "@/lib/types";
+
+type ExploreTreeProps = {
+  nodes: ExploreNode[];
+  rootPreview: string | null; // video URL used as the root thumbnail
+  currentIndex: number;
+  onSelect: (index: number) => void; // -1 = root videos
+  onDeleteBranch: (index: number) => void;
+  onPruneChildren: (index: number) => void;
+  clipName: (id: string) => string; // label for a root clip key or node ID
+  readOnly?: boolean; // hide pruning and deleting
+};
+
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 1.5;
+const ZOOM_STEP = 0.1;
+
+const STATUS_BADGES: Record<ExploreNodeStatus, { label: string; className: string }> = {
+  pending: { label: "Generating", className: "bg-amber-500/90 text-black" },
+  ready: { label: "Ready", className: "bg-green-600/90 text-white" },
+  failed: { label: "Failed", className: "bg-red-600/90 text-white" },
+};
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom * 10) / 10));
+
+// The whole exploration history as a top-down tree: the root videos at the
+// top, every branch below the node it was captured from.
+export default function ExploreTree({
+  nodes,
+  rootPreview,
+  currentIndex,
+  onSelect,
+  onDeleteBranch,
+  onPruneChildren,
+  clipName,
+  readOnly = false,
+}: ExploreTreeProps) {
+  const [zoom, setZoom] = useState(1);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggleCollapsed = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  // Ctrl/Cmd + wheel zooms, plain wheel scrolls as usual. React registers
+  // wheel handlers as passive, so preventDefault needs a native listener.
+  const viewportRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      setZoom((z) => clampZoom(z - Math.sign(e.deltaY) * ZOOM_STEP));
+    };
+    viewport.addEventListener("wheel", handleWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const renderChildren = (parent: number) => {
+    const children = childrenOf(nodes, parent);
+    if (children.length === 0) return null;
+    return (
+      <ul className="flex gap-4 pt-4 mt-2 border-t border-gray-700">
+        {children.map((index) => (
+          <li key={nodes[index].id}>{renderNode(index)}</li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderNode = (index: number) => {
+    const node = nodes[index];
+    const badge = STATUS_BADGES[node.status ?? "ready"];
+    const childCount = childrenOf(nodes, index).length;
+    const isCollapsed = collapsed.has(node.id);
+
+    return (
+      <div className="flex flex-col items-start">
+        <div
+          className={`w-36 rounded-lg overflow-hidden border-2 bg-gray-900 ${
+            index === currentIndex ? "border-indigo-500" : "border-gray-700 hover:border-gray-500"
+          } ${node.bridge ? "border-dashed" : ""}`}
+        >
+          <button onClick={() => onSelect(index)} className="relative block w-full text-left" title={node.error ?? node.prompt}>
+            <img src={node.frameImage} alt={node.prompt} className="w-full h-20 object-cover" />
+            <span className={`absolute top-1 left-1 px-1.5 rounded text-[10px] font-medium ${badge.className}`}>
+              {badge.label}
+            </span>
+            {node.preferred && (
+              <span className="absolute top-1 right-1 text-amber-400 text-sm" title="Preferred variant">★</span>
+            )}
+            <p className="text-xs text-gray-300 p-1.5 line-clamp-2">{node.prompt}</p>
+            {node.bridge && (
+              <p className="text-[11px] text-sky-300 px-1.5 pb-1 truncate">⇢ bridge to {clipName(node.bridge.to)}</p>
+            )}
+          </button>
+          <div className="flex items-center gap-2 px-1.5 pb-1.5 text-[11px]">
+            {childCount > 0 && (
+              <button onClick={() => toggleCollapsed(node.id)} className="text-gray-400 hover:text-white">
+                {isCollapsed ? `Expand (${childCount})` : "Collapse"}
+              </button>
+            )}
+            {childCount > 0 && !readOnly && (
+              <button onClick={() => onPruneChildren(index)} className="text-gray-400 hover:text-red-300">
+                Prune
+              </button>
+            )}
+            {!readOnly && (
+              <button onClick={() => onDeleteBranch(index)} className="ml-auto text-gray-400 hover:text-red-300">
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+        {!isCollapsed && renderChildren(index)}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-sm text-gray-400">
+        <span>Zoom</span>
+        <button onClick={() => setZoom((z) => clampZoom(z - ZOOM_STEP))} className="px-2 rounded bg-gray-800 hover:bg-gray-700">
+          −
+        </button>
+        <span className="w-10 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => setZoom((z) => clampZoom(z + ZOOM_STEP))} className="px-2 rounded bg-gray-800 hover:bg-gray-700">
+          +
+        </button>
+        <button onClick={() => setZoom(1)} className="px-2 rounded bg-gray-800 hover:bg-gray-700">
+          Reset
+        </button>
+      </div>
+      <div ref={viewportRef} className="overflow-auto max-h-[32rem] rounded-xl border border-gray-800 bg-gray-950 p-4">
+        <div style={{ transform: `scale(${zoom})`, transformOrigin: "top left" }} className="w-max">
+          <div className="flex flex-col items-start">
+            <button
+              onClick={() => onSelect(-1)}
+              className={`w-36 rounded-lg overflow-hidden border-2 bg-gray-900 text-left ${
+                currentIndex === -1 ? "border-indigo-500" : "border-gray-700 hover:border-gray-500"
+              }`}
+            >
+              {rootPreview && (
+                <video src={rootPreview} muted preload="metadata" className="w-full h-20 object-cover bg-black" />
+              )}
+              <p className="text-xs text-gray-300 p-1.5">Original videos</p>
+            </button>
+            {renderChildren(-1)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Job } from "@/lib/jobs";
+
+type JobProgressProps = {
+  label: string;
+  job: Job | null; // null until the first event arrives
+};
+
+const STATUS_LABELS: Record<Job["status"], string> = {
+  queued: "Queued",
+  running: "Generating",
+  succeeded: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const BAR_COLORS: Record<Job["status"], string> = {
+  queued: "bg-gray-500 animate-pulse",
+  running: "bg-indigo-500",
+  succeeded: "bg-green-500",
+  failed: "bg-red-500",
+  cancelled: "bg-gray-500",
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Extrapolate from how long the job took to reach its current progress.
+// Too early to tell below a few percent.
+const estimateRemaining = (job: Job, now: number) =>
+  job.status === "running" && job.startedAt && job.progress >= 0.03
+    ? ((now - job.startedAt) * (1 - job.progress)) / job.progress
+    : null;
+
+// One job's progress bar with elapsed time and an estimate of the time left.
+export default function JobProgress({ label, job }: JobProgressProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const active = !job || job.status === "queued" || job.status === "running";
+
+  // Tick the clock while the job is still going
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  const status = job?.status ?? "queued";
+  const percent = status === "succeeded" ? 100 : Math.round((job?.progress ?? 0) * 100);
+  const elapsed = job ? (active ? now : job.updatedAt) - job.createdAt : 0;
+  const remaining = job ? estimateRemaining(job, now) : null;
+
+  return (
+    <div className="text-sm">
+      <div className="flex justify-between gap-4 mb-1">
+        <span>{label}</span>
+        <span className="text-gray-400 tabular-nums">
+          {status === "running" ? `${percent}%` : STATUS_LABELS[status]}
+          {job && ` · ${formatDuration(elapsed)} elapsed`}
+          {remaining !== null && ` · ~${formatDuration(remaining)} left`}
+        </span>
+      </div>
+      <div className="h-2 rounded bg-gray-700 overflow-hidden">
+        <div
+          className={`h-full rounded transition-all duration-500 ${BAR_COLORS[status]}`}
+          style={{ width: `${status === "queued" ? 100 : percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
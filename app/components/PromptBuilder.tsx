@@ -0,0 +1,66 @@
+"use client";
+
+import type { SettingsInfo } from "./SettingsPanel";
+import type { PromptControls } from "@/lib/types";
+
+type PromptBuilderProps = {
+  options: SettingsInfo["promptOptions"] | null; // null while loading
+  value: PromptControls;
+  onChange: (controls: PromptControls) => void;
+  disabled?: boolean;
+};
+
+const CHOICE_FIELDS: { key: keyof SettingsInfo["promptOptions"]; label: string }[] = [
+  { key: "camera", label: "Camera move" },
+  { key: "speed", label: "Speed" },
+  { key: "lighting", label: "Lighting" },
+  { key: "style", label: "Style" },
+];
+
+const fieldClass = "w-full p-2 rounded-lg bg-gray-900 border border-gray-700 text-sm focus:border-indigo-500 focus:outline-none disabled:opacity-50";
+
+// Structured direction for an explore prompt. The server turns the choices
+// into sentences appended to the prompt, so results depend less on phrasing.
+export default function PromptBuilder({ options, value, onChange, disabled }: PromptBuilderProps) {
+  if (!options) return null;
+
+  // Leave unset fields out rather than storing empty strings
+  const setField = (key: keyof PromptControls, input: string) => {
+    const next = { ...value };
+    if (input) next[key] = input;
+    else delete next[key];
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-3">
+      {CHOICE_FIELDS.map(({ key, label }) => (
+        <label key={key} className="text-sm text-gray-400">
+          {label}
+          <select
+            value={value[key] ?? ""}
+            onChange={(e) => setField(key, e.target.value)}
+            disabled={disabled || (key === "speed" && !value.camera)}
+            className={`mt-1 ${fieldClass}`}
+          >
+            <option value="">Any</option>
+            {Object.entries(options[key]).map(([id, option]) => (
+              <option key={id} value={id} title={option.phrase}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+      <label className="text-sm text-gray-400">
+        Focus on
+        <input
+          value={value.focus ?? ""}
+          onChange={(e) => setField("focus", e.target.value)}
+          placeholder="e.g. the lighthouse"
+          maxLength={100}
+          disabled={disabled}
+          className={`mt-1 ${fieldClass}`}
+        />
+      </label>
+    </div>
+  );
+}
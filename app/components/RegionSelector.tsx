@@ -0,0 +1,88 @@
+"use client";
+
+import { useRef, useState, type PointerEvent } from "react";
+import type { FrameRegion } from "@/lib/types";
+
+type RegionSelectorProps = {
+  src: string;
+  alt: string;
+  value: FrameRegion | null;
+  onChange?: (region: FrameRegion | null) => void; // omitted: only show the region
+  className?: string;
+};
+
+// Share of each side a plain click selects around the clicked point
+const CLICK_REGION = 0.3;
+// Drags smaller than this are treated as clicks
+const MIN_DRAG = 0.05;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// A frame with a highlighted region. With onChange, dragging across the
+// image selects a region and clicking selects an area around the point.
+export default function RegionSelector({ src, alt, value, onChange, className }: RegionSelectorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ startX: number; startY: number; x: number; y: number } | null>(null);
+
+  // Pointer position as fractions of the image
+  const pointAt = (e: PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (!onChange) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointAt(e);
+    setDrag({ startX: x, startY: y, x, y });
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (drag) setDrag({ ...drag, ...pointAt(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag || !onChange) return;
+    const { startX, startY, x, y } = drag;
+    setDrag(null);
+
+    const width = Math.abs(x - startX);
+    const height = Math.abs(y - startY);
+    if (width < MIN_DRAG || height < MIN_DRAG) {
+      // A click: centre a fixed-size region on the point, kept inside the frame
+      const left = clamp(Math.min(startX - CLICK_REGION / 2, 1 - CLICK_REGION));
+      const top = clamp(Math.min(startY - CLICK_REGION / 2, 1 - CLICK_REGION));
+      onChange({ x: round(left), y: round(top), width: CLICK_REGION, height: CLICK_REGION });
+      return;
+    }
+    onChange({ x: round(Math.min(x, startX)), y: round(Math.min(y, startY)), width: round(width), height: round(height) });
+  };
+
+  const shown = drag
+    ? { x: Math.min(drag.x, drag.startX), y: Math.min(drag.y, drag.startY), width: Math.abs(drag.x - drag.startX), height: Math.abs(drag.y - drag.startY) }
+    : value;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative select-none overflow-hidden rounded-lg ${onChange ? "cursor-crosshair touch-none" : ""} ${className ?? ""}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img src={src} alt={alt} draggable={false} className="w-full rounded-lg border border-gray-700" />
+      {shown && (
+        <div
+          className="absolute border-2 border-indigo-400 bg-indigo-400/15 rounded-sm pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect } from "react";
+import type { GenerationSettings, ModelSpec, PromptControls, PromptOption, PromptTemplates } from "@/lib/types";
+
+// What GET /api/settings returns
+export type SettingsInfo = {
+  defaults: GenerationSettings;
+  models: Record<string, ModelSpec>;
+  maxSeed: number;
+  promptOptions: Record<Exclude<keyof PromptControls, "focus">, Record<string, PromptOption>>;
+};
+
+type SettingsPanelProps = {
+  info: SettingsInfo | null; // null while loading
+  value: GenerationSettings | null; // null until the server defaults arrive
+  onChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+};
+
+const TEMPLATE_FIELDS: { key: keyof PromptTemplates; label: string; hint: string }[] = [
+  { key: "setting", label: "Setting pan", hint: "Used for the background clip" },
+  { key: "person", label: "Person", hint: "{angle} becomes the photo's direction, e.g. “seen in left profile”" },
+  { key: "explore", label: "Explore", hint: "{prompt} becomes the text you type when exploring" },
+];
+
+const fieldClass = "w-full p-2 rounded-lg bg-gray-900 border border-gray-700 text-sm focus:border-indigo-500 focus:outline-none disabled:opacity-50";
+
+// Model, ratio, duration, seed and prompt templates used for every generate
+// and explore request. Choices are limited to what the selected model accepts.
+export default function SettingsPanel({ info, value, onChange, disabled }: SettingsPanelProps) {
+  // Start from the server defaults unless the project brought its own
+  useEffect(() => {
+    if (info && !value) onChange(info.defaults);
+  }, [info, value, onChange]);
+
+  if (!info || !value) return null;
+  const spec = info.models[value.model] ?? info.models[info.defaults.model];
+
+  // Keep ratio and duration when the new model accepts them, otherwise use its defaults
+  const selectModel = (model: string) => {
+    const next = info.models[model];
+    onChange({
+      ...value,
+      model,
+      ratio: next.ratios.includes(value.ratio) ? value.ratio : next.ratios[0],
+      duration: next.durations.includes(value.duration) ? value.duration : next.defaultDuration,
+      seed: next.supportsSeed ? value.seed : undefined,
+    });
+  };
+
+  const setSeed = (input: string) => {
+    const seed = Number(input);
+    onChange({
+      ...value,
+      seed: input === "" || !Number.isInteger(seed) ? undefined : Math.min(Math.max(seed, 0), info.maxSeed),
+    });
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-gray-900/60 border border-gray-800">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-400">
+          Model
+          <select value={value.model} onChange={(e) => selectModel(e.target.value)} disabled={disabled} className={`mt-1 ${fieldClass}`}>
+            {Object.entries(info.models).map(([id, model]) => (
+              <option key={id} value={id}>{model.label} ({model.creditsPerSecond} credits/s)</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-400">
+          Aspect ratio
+          <select value={value.ratio} onChange={(e) => onChange({ ...value, ratio: e.target.value })} disabled={disabled} className={`mt-1 ${fieldClass}`}>
+            {spec.ratios.map((ratio) => (
+              <option key={ratio} value={ratio}>{ratio.replace(":", " × ")}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-400">
+          Duration
+          <select
+            value={value.duration}
+            onChange={(e) => onChange({ ...value, duration: Number(e.target.value) })}
+            disabled={disabled}
+            className={`mt-1 ${fieldClass}`}
+          >
+            {spec.durations.map((duration) => (
+              <option key={duration} value={duration}>{duration}s</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-400">
+          Seed
+          <input
+            type="number"
+            min={0}
+            max={info.maxSeed}
+            value={value.seed ?? ""}
+            placeholder={spec.supportsSeed ? "Random" : "Not supported"}
+            onChange={(e) => setSeed(e.target.value)}
+            disabled={disabled || !spec.supportsSeed}
+            className={`mt-1 ${fieldClass}`}
+          />
+        </label>
+      </div>
+
+      <details className="mt-4">
+        <summary className="text-sm text-gray-400 cursor-pointer hover:text-gray-200">Prompt templates</summary>
+        <div className="mt-3 space-y-3">
+          {TEMPLATE_FIELDS.map(({ key, label, hint }) => (
+            <label key={key} className="block text-sm text-gray-400">
+              {label} <span className="text-gray-500">— {hint}</span>
+              <textarea
+                value={value.templates[key]}
+                onChange={(e) => onChange({ ...value, templates: { ...value.templates, [key]: e.target.value } })}
+                disabled={disabled}
+                rows={2}
+                className={`mt-1 resize-none ${fieldClass}`}
+              />
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, templates: info.defaults.templates })}
+            disabled={disabled}
+            className="text-sm text-indigo-400 hover:text-indigo-300 disabled:text-gray-600"
+          >
+            Reset templates
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+}
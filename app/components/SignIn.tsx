@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import type { AuthMethod } from "@/lib/auth";
+
+type SignInProps = {
+  methods: AuthMethod[];
+  canRegister: boolean; // the local user store accepts new users
+};
+
+type Mode = "password" | "register" | "token";
+
+const fieldClass = "w-full p-2 rounded-lg bg-gray-900 border border-gray-700 text-sm focus:border-indigo-500 focus:outline-none";
+
+// Shown in place of the studio when the server requires sign-in. Signs in
+// with a name and password, an API token, or registers the first user.
+export default function SignIn({ methods, canRegister }: SignInProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>(methods.includes("password") ? "password" : "token");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [token, setToken] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(mode === "register" ? "/api/auth/register" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(mode === "token" ? { token } : { name, password }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || "Could not sign in");
+      }
+      // The session cookie is set; render the page again as the new user
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not sign in");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const modes: { key: Mode; label: string; shown: boolean }[] = [
+    { key: "password", label: "Sign in", shown: methods.includes("password") },
+    { key: "register", label: "Create account", shown: canRegister },
+    { key: "token", label: "API token", shown: methods.includes("token") },
+  ];
+
+  return (
+    <main className="min-h-screen bg-gray-950 text-white p-8">
+      <div className="max-w-sm mx-auto mt-24">
+        <h1 className="text-3xl font-bold mb-2">Runway Video Generator</h1>
+        <p className="text-gray-400 mb-8">Sign in to generate and explore videos.</p>
+
+        <div className="flex gap-4 mb-4 text-sm">
+          {modes.filter((m) => m.shown).map((m) => (
+            <button
+              key={m.key}
+              type="button"
+              onClick={() => setMode(m.key)}
+              className={mode === m.key ? "text-white font-semibold" : "text-gray-400 hover:text-gray-200"}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {mode === "token" ? (
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="API token"
+              autoComplete="off"
+              className={fieldClass}
+            />
+          ) : (
+            <>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="User name"
+                autoComplete="username"
+                className={fieldClass}
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete={mode === "register" ? "new-password" : "current-password"}
+                className={fieldClass}
+              />
+            </>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full px-6 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+          >
+            {busy ? "Signing in..." : mode === "register" ? "Create account" : "Sign in"}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,1822 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect, ChangeEvent } from "react";
+import Link from "next/link";
+import ClipPlayer, { formatTime, type ClipMarker } from "./ClipPlayer";
+import BridgeControl from "./BridgeControl";
+import ContinueControl from "./ContinueControl";
+import ExploreTree from "./ExploreTree";
+import JobProgress from "./JobProgress";
+import PromptBuilder from "./PromptBuilder";
+import RegionSelector from "./RegionSelector";
+import SettingsPanel, { type SettingsInfo } from "./SettingsPanel";
+import VariantPicker from "./VariantPicker";
+import type { User } from "@/lib/auth";
+import type { Job, JobStatus } from "@/lib/jobs";
+import { appendNodes, descendantsOf, removeNodes } from "@/lib/tree";
+import { IMAGE_TYPES, PERSON_ANGLES, type ClipSettings, type ExploreNode, type FrameRegion, type GenerationSettings, type PersonAngle, type Project, type ProjectSummary, type PromptControls, type RegionMode, type RootVideos, type UsageSummary } from "@/lib/types";
+
+type ImageSlot = {
+  label: string;
+  key: string;
+  file: File | null;
+  preview: string | null;
+  error: string | null; // why the image was rejected
+};
+
+type TaskStatus = "idle" | "uploading" | "generating" | "polling" | "done" | "error" | "cancelled";
+
+// One root clip of a generation: its current job and how that job ended
+type RootClipJob = {
+  jobId: string;
+  job: Job | null; // latest event
+  url: string | null;
+  error: string | null;
+  cancelled: boolean;
+  cached: boolean; // reused from an identical earlier request
+};
+
+class JobCancelledError extends Error {}
+
+// A refused API request. `retryAfter` is set for 429s, in seconds.
+class RequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter: number | null,
+    public field?: string
+  ) {
+    super(message);
+  }
+}
+
+async function readError(res: Response, fallback: string): Promise<RequestError> {
+  const data = await res.json().catch(() => ({}));
+  const retryAfter = Number(res.headers.get("Retry-After"));
+  const message = res.status === 401 ? "Your session has ended. Sign in again to continue." : data.error || fallback;
+  return new RequestError(message, res.status, res.status === 429 && retryAfter > 0 ? retryAfter : null, data.field);
+}
+
+const JOB_EVENTS: JobStatus[] = ["queued", "running", "succeeded", "failed", "cancelled"];
+
+// Follow a job's event stream until it finishes. Resolves with the video URL,
+// or throws with the job's error if it failed. Dropped connections are
+// reopened by EventSource; the stream only closes for good if the job is gone.
+function waitForJob(jobId: string, onUpdate: (job: Job) => void): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/jobs/${jobId}/events`);
+
+    const handleEvent = (e: MessageEvent<string>) => {
+      const job: Job = JSON.parse(e.data);
+      onUpdate(job);
+      if (job.status === "queued" || job.status === "running") return;
+
+      events.close();
+      if (job.status === "succeeded") {
+        if (job.videoUrl) resolve(job.videoUrl);
+        else reject(new Error("No video URL returned"));
+      } else if (job.status === "cancelled") {
+        reject(new JobCancelledError(job.error || "Cancelled"));
+      } else {
+        reject(new Error(job.error || "Video generation failed"));
+      }
+    };
+
+    for (const status of JOB_EVENTS) events.addEventListener(status, handleEvent);
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) reject(new Error("Lost track of the job; it may have expired"));
+    };
+  });
+}
+
+const describeJob = (job: Job) =>
+  job.status === "running" ? `${Math.round(job.progress * 100)}%` : job.status;
+
+async function cancelJob(jobId: string) {
+  const res = await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+  // 409: the job finished before the cancel arrived, nothing to do
+  if (!res.ok && res.status !== 409) throw await readError(res, "Failed to cancel");
+}
+
+// Start a failed or cancelled job again; resolves with the new job's ID
+async function retryJob(jobId: string): Promise<string> {
+  const res = await fetch(`/api/jobs/${jobId}/retry`, { method: "POST" });
+  if (!res.ok) throw await readError(res, "Failed to retry");
+  return (await res.json()).jobId;
+}
+
+const IMAGE_SLOTS = [
+  { label: "Front", key: "front" },
+  { label: "Left", key: "left" },
+  { label: "Right", key: "right" },
+  { label: "Back", key: "back" },
+  { label: "Background / Setting", key: "background" },
+];
+
+// Upload slot that a request field error refers to, e.g. "personImages.left" -> "left"
+const slotForField = (field: string) =>
+  field === "backgroundImage" ? "background" : field.replace(/^personImages\./, "");
+
+// Heading for a root clip: the setting pan, the composite or a person angle
+const clipLabel = (key: string) => {
+  if (key === "setting") return "Setting Pan";
+  if (key === "composite") return "Person in Setting";
+  const angle = key.replace(/^person-/, "");
+  return `Person Animated (${IMAGE_SLOTS.find((slot) => slot.key === angle)?.label ?? angle})`;
+};
+
+// Delay between the last change and saving the project
+const AUTOSAVE_DELAY = 1000;
+// How often a project a scripted run is filling in is reloaded
+const RUN_REFRESH_INTERVAL = 5000;
+
+// What autosave writes, to tell whether anything changed since the last save
+const treeSnapshot = (nodes: ExploreNode[], currentIndex: number, settings: GenerationSettings | null) =>
+  JSON.stringify({ nodes, currentIndex, settings });
+
+// Save the tree and breadcrumb position. Throws a RequestError when the
+// server refuses them, e.g. for a tree that doesn't hold together.
+async function saveProjectTree(
+  projectId: string,
+  nodes: ExploreNode[],
+  currentIndex: number,
+  settings: GenerationSettings | null
+) {
+  const res = await fetch(`/api/projects/${projectId}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ nodes, currentIndex, settings: settings ?? undefined }),
+  });
+  if (!res.ok) throw await readError(res, "Could not save the project");
+}
+
+// One-line summary of what a clip was generated with
+const describeSettings = ({ model, ratio, duration, seed }: ClipSettings) =>
+  [model, ratio.replace(":", "×"), `${duration}s`, seed !== undefined && `seed ${seed}`].filter(Boolean).join(" · ");
+
+// Ask, from a click, whether finished generations may raise notifications
+const requestNotifications = () => {
+  if ("Notification" in window && Notification.permission === "default") {
+    Notification.requestPermission().catch(() => {});
+  }
+};
+
+// Tell the user a generation finished while they were in another tab.
+// Clicking the notification brings this tab back.
+const notifyInBackground = (title: string, body: string) => {
+  if (!document.hidden || !("Notification" in window) || Notification.permission !== "granted") return;
+  const notification = new Notification(title, { body });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Prompt for continuing an original clip, which has no prompt of its own
+const DEFAULT_CONTINUE_PROMPT = "The scene continues naturally with the same motion";
+
+const CachedBadge = () => (
+  <span
+    title="Reused from an identical earlier request, no credits spent"
+    className="ml-2 px-1.5 py-0.5 rounded bg-teal-900/60 text-teal-300 text-xs font-normal align-middle"
+  >
+    Cached
+  </span>
+);
+
+type StudioProps = {
+  project?: Project;
+  user?: User; // signed-in user, when the server requires sign-in
+  runJobId?: string; // scripted run still filling the project in
+};
+
+export default function Studio({ project, user, runJobId }: StudioProps) {
+  const [images, setImages] = useState<ImageSlot[]>(
+    IMAGE_SLOTS.map((slot) => ({ ...slot, file: null, preview: project?.images[slot.key] ?? null, error: null }))
+  );
+
+  const [status, setStatus] = useState<TaskStatus>("idle");
+  const [statusMessage, setStatusMessage] = useState("");
+  const [videos, setVideos] = useState<RootVideos | null>(project?.videos ?? null);
+  const fileInputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+  // Project persistence
+  const [projectId, setProjectId] = useState<string | null>(project?.id ?? null);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
+  const [settings, setSettings] = useState<GenerationSettings | null>(project?.settings ?? null);
+  const [settingsInfo, setSettingsInfo] = useState<SettingsInfo | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [forceRegenerate, setForceRegenerate] = useState(false); // skip the server's result cache
+
+  // Refused requests: a 401 means the session ended, a 429 holds off new
+  // generations until the server's Retry-After has passed
+  const [signedOut, setSignedOut] = useState(false);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const cooldown = cooldownUntil !== null && cooldownUntil > now ? Math.ceil((cooldownUntil - now) / 1000) : 0;
+
+  // Root clip jobs of the latest generation. The ref is read by the
+  // long-running watchers, the state drives rendering.
+  const rootJobsRef = useRef<Record<string, RootClipJob>>({});
+  const [rootJobs, setRootJobs] = useState<Record<string, RootClipJob>>({});
+  const exploreJobsRef = useRef<string[]>([]); // jobs of the explore request in progress
+  const [compositeSkipped, setCompositeSkipped] = useState(false); // the front photo's backdrop couldn't be keyed out
+  const generatedProjectRef = useRef<string | null>(null);
+
+  // Explore state
+  const [exploreChain, setExploreChain] = useState<ExploreNode[]>(project?.nodes ?? []);
+  const [exploreIndex, setExploreIndex] = useState(project?.currentIndex ?? -1); // -1 = root (original videos)
+  // The latest tree, for requests that carry on after awaiting the server
+  const exploreChainRef = useRef(exploreChain);
+  const [capturedFrame, setCapturedFrame] = useState<string | null>(null);
+  const [captureSource, setCaptureSource] = useState<{ clip: string; time: number } | null>(null);
+  const [explorePrompt, setExplorePrompt] = useState("");
+  const [promptControls, setPromptControls] = useState<PromptControls>({}); // kept between explores
+  const [region, setRegion] = useState<FrameRegion | null>(null); // part of the captured frame to zoom into
+  const [regionMode, setRegionMode] = useState<RegionMode>("crop");
+  const [variantCount, setVariantCount] = useState(1);
+  const [splitPrompts, setSplitPrompts] = useState(false); // one prompt per line
+  const [exploreStatus, setExploreStatus] = useState<TaskStatus>("idle");
+  const [exploreMessage, setExploreMessage] = useState("");
+  const [exploreJobs, setExploreJobs] = useState<(Job | null)[]>([]); // latest event per variant in flight
+  // Clip to cue up at a given time when it next loads
+  const [seekTarget, setSeekTarget] = useState<{ clip: string; time: number } | null>(null);
+
+  // Film export state
+  const [crossfade, setCrossfade] = useState(0);
+  const [exportStatus, setExportStatus] = useState<TaskStatus>("idle");
+  const [exportMessage, setExportMessage] = useState("");
+  const [exportUrl, setExportUrl] = useState<string | null>(null);
+  const [bundleMessage, setBundleMessage] = useState(""); // import or download failure
+  const [importing, setImporting] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const setSlotError = (key: string, error: string | null) =>
+    setImages((prev) => prev.map((slot) => (slot.key === key ? { ...slot, error } : slot)));
+
+  const handleImageSelect = (index: number, e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // The server checks the content too; this catches the obvious cases early
+    if (!(IMAGE_TYPES as readonly string[]).includes(file.type)) {
+      setSlotError(images[index].key, "Use a JPEG, PNG or WebP image");
+      e.target.value = "";
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setImages((prev) => {
+        const updated = [...prev];
+        updated[index] = { ...updated[index], file, preview: reader.result as string, error: null };
+        return updated;
+      });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const removeImage = (index: number) => {
+    setImages((prev) => {
+      const updated = [...prev];
+      updated[index] = { ...updated[index], file: null, preview: null, error: null };
+      return updated;
+    });
+    if (fileInputRefs.current[index]) {
+      fileInputRefs.current[index]!.value = "";
+    }
+  };
+
+  // Previews hold the data URIs, so restored projects can regenerate too
+  const allRequiredUploaded = images[0].preview && images[4].preview;
+
+  useEffect(() => {
+    exploreChainRef.current = exploreChain;
+  }, [exploreChain]);
+
+  // Add new nodes below the node `parentId` (null = the root videos) and
+  // return the index of the first. The parent is found by ID because the
+  // tree may have changed while the nodes were requested; if it is gone, the
+  // nodes' jobs are cancelled instead.
+  const addNodes = (created: ExploreNode[], parentId: string | null) => {
+    const chain = exploreChainRef.current;
+    if (parentId !== null && !chain.some((node) => node.id === parentId)) {
+      created.forEach((node) => node.jobId && cancelJob(node.jobId).catch(() => {}));
+      throw new Error("The clip this was explored from has been deleted");
+    }
+    setExploreChain((prev) => appendNodes(prev, created, parentId));
+    return chain.length;
+  };
+
+  const selectNode = (id: string) => {
+    const index = exploreChainRef.current.findIndex((node) => node.id === id);
+    if (index >= 0) setExploreIndex(index);
+  };
+
+  const updateNode = useCallback((id: string, patch: Partial<ExploreNode>) => {
+    setExploreChain((prev) => prev.map((node) => (node.id === id ? { ...node, ...patch } : node)));
+  }, []);
+
+  // Follow a node's job to the end. Failed nodes keep their job ID so they
+  // can be retried.
+  const watchNode = useCallback(
+    (id: string, jobId: string) =>
+      waitForJob(jobId, () => {})
+        .then((videoUrl) => {
+          updateNode(id, { status: "ready", videoUrl, jobId: undefined });
+          notifyInBackground("Exploration ready", "A video has finished generating.");
+        })
+        .catch((err: unknown) => {
+          const error = err instanceof Error ? err.message : "Generation failed";
+          updateNode(id, { status: "failed", error });
+          if (!(err instanceof JobCancelledError)) notifyInBackground("Exploration failed", error);
+        }),
+    [updateNode]
+  );
+
+  // Pick up nodes that were still generating when the project was saved
+  useEffect(() => {
+    for (const node of project?.nodes ?? []) {
+      if (node.status === "pending" && node.jobId) watchNode(node.id, node.jobId);
+    }
+  }, [project, watchNode]);
+
+  const noteRequestError = useCallback((err: unknown) => {
+    if (!(err instanceof RequestError)) return;
+    if (err.status === 401) setSignedOut(true);
+    if (err.retryAfter !== null) {
+      setNow(Date.now());
+      setCooldownUntil(Date.now() + err.retryAfter * 1000);
+    }
+  }, []);
+
+  // Count down while generation is on hold
+  useEffect(() => {
+    if (cooldownUntil === null) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldownUntil) setCooldownUntil(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    window.location.reload();
+  };
+
+  // Models and defaults for the settings panel and cost estimates
+  useEffect(() => {
+    fetch("/api/settings")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setSettingsInfo)
+      .catch(() => setSettingsInfo(null));
+  }, []);
+
+  // Credits spent by this project and overall, against the budgets
+  const refreshUsage = useCallback((id: string | null) => {
+    fetch(id ? `/api/usage?projectId=${id}` : "/api/usage")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setUsage)
+      .catch(() => setUsage(null));
+  }, []);
+
+  useEffect(() => {
+    refreshUsage(projectId);
+  }, [projectId, refreshUsage]);
+
+  // Offer previously saved projects on a fresh page
+  useEffect(() => {
+    if (project) return;
+    fetch("/api/projects")
+      .then((res) => (res.ok ? res.json() : { projects: [] }))
+      .then((data) => setSavedProjects(data.projects))
+      .catch(() => setSavedProjects([]));
+  }, [project]);
+
+  // While a scripted run fills the project in, the page shows the saved tree
+  // as it grows and changes nothing, so neither side overwrites the other
+  const [runJob, setRunJob] = useState<Job | null>(null);
+  const [runEnded, setRunEnded] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null); // why the last autosave failed
+  const runActive = runJobId !== undefined && !runEnded;
+  // The tree as last saved or loaded
+  const savedTreeRef = useRef(treeSnapshot(project?.nodes ?? [], project?.currentIndex ?? -1, project?.settings ?? null));
+
+  useEffect(() => {
+    if (!runJobId || !projectId) return;
+    let stopped = false;
+    // The run is checked before the project, so the last refresh has every node
+    const refresh = async () => {
+      const jobRes = await fetch(`/api/jobs/${runJobId}`);
+      const job: Job | null = jobRes.ok ? await jobRes.json() : null;
+      const projectRes = await fetch(`/api/projects/${projectId}`);
+      if (stopped) return;
+      if (projectRes.ok) {
+        const latest: Project = await projectRes.json();
+        setVideos(latest.videos);
+        setExploreChain(latest.nodes);
+        savedTreeRef.current = treeSnapshot(latest.nodes, latest.currentIndex, latest.settings ?? null);
+      }
+      setRunJob(job);
+      // A run that has expired from the server counts as ended
+      if (!job || (job.status !== "queued" && job.status !== "running")) {
+        stopped = true;
+        setRunEnded(true);
+      }
+    };
+    refresh().catch(() => {});
+    const timer = setInterval(() => {
+      if (stopped) clearInterval(timer);
+      else refresh().catch(() => {});
+    }, RUN_REFRESH_INTERVAL);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [runJobId, projectId]);
+
+  // Autosave the exploration tree and breadcrumb position once a project
+  // exists, whenever they change
+  useEffect(() => {
+    if (!projectId || runActive) return;
+    const snapshot = treeSnapshot(exploreChain, exploreIndex, settings);
+    if (snapshot === savedTreeRef.current) return;
+    const timer = setTimeout(() => {
+      saveProjectTree(projectId, exploreChain, exploreIndex, settings)
+        .then(() => {
+          savedTreeRef.current = snapshot;
+          setSaveError(null);
+        })
+        .catch((err: unknown) => {
+          noteRequestError(err);
+          setSaveError(err instanceof Error ? err.message : "Could not save the project");
+        });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [projectId, runActive, exploreChain, exploreIndex, settings, noteRequestError]);
+
+  // Each generation starts a new project so earlier explorations are kept.
+  // It is created up front so the credits spent can be attributed to it.
+  const createGenerationProject = async () => {
+    const res = await fetch("/api/projects", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: `Exploration ${new Date().toLocaleString()}`,
+        images: Object.fromEntries(images.map((slot) => [slot.key, slot.preview])),
+        settings: settings ?? undefined,
+      }),
+    });
+    if (!res.ok) throw new Error("Could not create a project for the new videos");
+    const created: Project = await res.json();
+    return created.id;
+  };
+
+  // Record a root clip job's progress. Updates from a job that has since
+  // been replaced by a retry or a new generation are dropped.
+  const patchRootJob = (key: string, jobId: string, patch: Partial<RootClipJob>) => {
+    const current = rootJobsRef.current[key];
+    if (current?.jobId !== jobId) return;
+    rootJobsRef.current = { ...rootJobsRef.current, [key]: { ...current, ...patch } };
+    setRootJobs(rootJobsRef.current);
+  };
+
+  // Once every root clip has settled, show what finished. The setting and
+  // front clips are required; the other angles and the composite are
+  // optional, so their failures are reported but don't hold back the rest.
+  const finishGeneration = async () => {
+    const clips = rootJobsRef.current;
+    const failed = Object.entries(clips).filter(([, clip]) => clip.error);
+    const failures = failed.map(([key, clip]) => `${clipLabel(key)}: ${clip.error}`).join("; ");
+
+    const setting = clips.setting?.url;
+    const front = clips["person-front"]?.url;
+    if (!setting || !front) {
+      const cancelled = failed.some(([, clip]) => clip.cancelled);
+      setStatus(cancelled ? "cancelled" : "error");
+      setStatusMessage(
+        cancelled
+          ? "Generation cancelled. Retry the stopped clips to pick up where you left off."
+          : `Generation failed (${failures}). Retry the failed clips below.`
+      );
+      if (!cancelled) notifyInBackground("Generation failed", failures);
+      return;
+    }
+
+    const generated: RootVideos = {
+      setting,
+      person: Object.fromEntries(
+        PERSON_ANGLES.filter((angle) => clips[`person-${angle}`]?.url).map((angle) => [angle, clips[`person-${angle}`].url!])
+      ),
+      composite: clips.composite?.url ?? undefined,
+    };
+    setVideos(generated);
+
+    // Clips retried later update the same project again
+    const res = await fetch(`/api/projects/${generatedProjectRef.current}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ videos: generated }),
+    }).catch(() => null);
+    refreshUsage(generatedProjectRef.current);
+    if (!res?.ok) {
+      setStatus("error");
+      setStatusMessage("Videos generated, but the project could not be saved");
+      return;
+    }
+
+    const cachedCount = Object.values(clips).filter((clip) => clip.cached).length;
+    const reused = cachedCount > 0 ? ` ${cachedCount} reused from identical earlier requests.` : "";
+    setStatus("done");
+    setStatusMessage(
+      (failed.length > 0
+        ? `Videos generated, but some clips failed (${failures}). Retry them below.`
+        : "Videos generated successfully! Pause a video and click it to explore.") + reused
+    );
+    notifyInBackground("Videos ready", failed.length > 0 ? `Some clips failed: ${failures}` : "Your videos have been generated.");
+  };
+
+  // Poll root clip jobs until they settle, then finish the generation unless
+  // another watch (e.g. a retry) still has jobs outstanding.
+  const watchRootJobs = async (keys: string[]) => {
+    setStatus("polling");
+    setStatusMessage("Videos are being generated...");
+
+    await Promise.allSettled(
+      keys.map((key) => {
+        const { jobId } = rootJobsRef.current[key];
+        return waitForJob(jobId, (job) => patchRootJob(key, jobId, { job })).then(
+          (url) => patchRootJob(key, jobId, { url }),
+          (err: unknown) =>
+            patchRootJob(key, jobId, {
+              error: err instanceof Error ? err.message : "Generation failed",
+              cancelled: err instanceof JobCancelledError,
+            })
+        );
+      })
+    );
+
+    const outstanding = Object.values(rootJobsRef.current).some((clip) => !clip.url && !clip.error);
+    if (!outstanding) await finishGeneration();
+  };
+
+  const handleGenerate = async () => {
+    if (!allRequiredUploaded) return;
+    requestNotifications();
+
+    setStatus("uploading");
+    setStatusMessage("Preparing images...");
+    // Detach from the open project first, so autosave can't write the cleared
+    // tree over it. The new project is attached once it exists.
+    setProjectId(null);
+    setVideos(null);
+    setExploreChain([]);
+    setExploreIndex(-1);
+    setCapturedFrame(null);
+    rootJobsRef.current = {};
+    setRootJobs({});
+    generatedProjectRef.current = null;
+
+    try {
+      // Send every person photo that was uploaded, keyed by angle
+      const personImages = Object.fromEntries(
+        images.slice(0, 4).filter((slot) => slot.preview).map((slot) => [slot.key, slot.preview])
+      );
+      const backgroundURI = images[4].preview!;
+
+      setStatus("generating");
+      setStatusMessage("Sending to Runway ML...");
+
+      setImages((prev) => prev.map((slot) => ({ ...slot, error: null })));
+      const newProjectId = await createGenerationProject();
+      const res = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          personImages,
+          backgroundImage: backgroundURI,
+          settings: settings ?? undefined,
+          projectId: newProjectId,
+          force: forceRegenerate,
+        }),
+      });
+
+      if (!res.ok) {
+        const err = await readError(res, "Generation failed");
+        // Nothing was generated, so the project would only be clutter
+        fetch(`/api/projects/${newProjectId}`, { method: "DELETE" }).catch(() => {});
+        // Show image problems next to the photo they concern
+        if (err.field) setSlotError(slotForField(err.field), err.message);
+        throw err;
+      }
+
+      const { settingJobId, personJobIds, compositeJobId, cachedJobIds } = await res.json() as {
+        settingJobId: string;
+        personJobIds: Partial<Record<PersonAngle, string>>;
+        compositeJobId: string | null;
+        cachedJobIds: string[];
+      };
+      generatedProjectRef.current = newProjectId;
+      savedTreeRef.current = treeSnapshot([], -1, settings);
+      setProjectId(newProjectId);
+      window.history.replaceState(null, "", `/projects/${newProjectId}`);
+
+      // Track each clip on its own so a failure only costs that clip
+      const jobIds: Record<string, string> = {
+        setting: settingJobId,
+        ...Object.fromEntries(
+          PERSON_ANGLES.filter((angle) => personJobIds[angle]).map((angle) => [`person-${angle}`, personJobIds[angle]!])
+        ),
+        ...(compositeJobId && { composite: compositeJobId }),
+      };
+      setCompositeSkipped(!compositeJobId);
+      rootJobsRef.current = Object.fromEntries(
+        Object.entries(jobIds).map(([key, jobId]) => [
+          key,
+          { jobId, job: null, url: null, error: null, cancelled: false, cached: cachedJobIds.includes(jobId) },
+        ])
+      );
+      setRootJobs(rootJobsRef.current);
+
+      await watchRootJobs(Object.keys(jobIds));
+    } catch (err: unknown) {
+      noteRequestError(err);
+      setStatus("error");
+      setStatusMessage(err instanceof Error ? err.message : "An error occurred");
+      notifyInBackground("Generation failed", err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  // Cancel every root clip that is still being generated
+  const handleCancelGenerate = async () => {
+    const pending = Object.values(rootJobsRef.current).filter((clip) => !clip.url && !clip.error);
+    await Promise.all(pending.map((clip) => cancelJob(clip.jobId)));
+  };
+
+  // Re-run a single failed or cancelled root clip. The composite fails along
+  // with the setting or front clip it is made from, so it is retried with them
+  // and picks up their retries.
+  const handleRetryClip = async (key: string) => {
+    if (!rootJobsRef.current[key]?.error) return;
+    const keys = [key];
+    if ((key === "setting" || key === "person-front") && rootJobsRef.current.composite?.error) keys.push("composite");
+
+    try {
+      for (const retried of keys) {
+        const jobId = await retryJob(rootJobsRef.current[retried].jobId);
+        rootJobsRef.current = {
+          ...rootJobsRef.current,
+          [retried]: { jobId, job: null, url: null, error: null, cancelled: false, cached: false },
+        };
+      }
+      setRootJobs(rootJobsRef.current);
+      await watchRootJobs(keys);
+    } catch (err: unknown) {
+      noteRequestError(err);
+      setStatus("error");
+      setStatusMessage(err instanceof Error ? err.message : "Retry failed");
+    }
+  };
+
+  // Use the exact frame at `time` in a stored clip, extracted on the server at
+  // full resolution, remembering which clip it came from and when
+  const captureFrame = useCallback(async (clip: string, videoUrl: string, time: number) => {
+    const res = await fetch("/api/frames", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ videoUrl, time }),
+    });
+    if (!res.ok) {
+      const err = await readError(res, "Could not extract the frame");
+      noteRequestError(err);
+      throw err;
+    }
+    const { image } = await res.json() as { image: string };
+    setCapturedFrame(image);
+    setCaptureSource({ clip, time });
+    setExplorePrompt("");
+    setRegion(null);
+  }, [noteRequestError]);
+
+  // Submit an explore request
+  const handleExplore = async () => {
+    if (!capturedFrame || !explorePrompt.trim()) return;
+
+    // Either one prompt per line, or the same prompt with different seeds
+    const request = splitPrompts
+      ? { prompts: explorePrompt.split("\n").map((line) => line.trim()).filter(Boolean) }
+      : { prompt: explorePrompt.trim(), variants: variantCount };
+
+    requestNotifications();
+    setExploreStatus("generating");
+    setExploreMessage("Generating new video from this frame...");
+
+    // Node IDs are chosen up front so the server can report them to webhooks
+    const count = request.prompts?.length ?? variantCount;
+    const nodeIds = Array.from({ length: count }, () => crypto.randomUUID());
+    const parentId = exploreIndex >= 0 ? exploreChain[exploreIndex].id : null; // the node this branches from
+    let created: ExploreNode[] = [];
+
+    try {
+      const res = await fetch("/api/explore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          image: capturedFrame,
+          ...request,
+          nodeIds,
+          sourceClip: captureSource?.clip,
+          captureTime: captureSource?.time,
+          controls: promptControls,
+          region: region ?? undefined,
+          regionMode,
+          settings: settings ?? undefined,
+          projectId: projectId ?? undefined,
+          force: forceRegenerate,
+        }),
+      });
+
+      if (!res.ok) throw await readError(res, "Explore generation failed");
+
+      const { variants, controls } = await res.json() as {
+        variants: { jobId: string; prompt: string; settings: ClipSettings; cached: boolean }[];
+        controls: PromptControls;
+      };
+
+      // Add the nodes straight away so the tree shows them while they generate.
+      // Alternatives from one request are siblings sharing a variant group.
+      const variantGroup = variants.length > 1 ? crypto.randomUUID() : undefined;
+      created = variants.map(({ jobId, prompt, settings: clip, cached }, i) => ({
+        id: nodeIds[i],
+        prompt,
+        frameImage: capturedFrame,
+        videoUrl: "",
+        status: "pending" as const,
+        jobId,
+        parentIndex: -1, // set by addNodes
+        sourceClip: captureSource?.clip,
+        captureTime: captureSource?.time,
+        variantGroup,
+        settings: clip,
+        cached: cached || undefined,
+        controls: Object.keys(controls).length > 0 ? controls : undefined,
+        region: region ?? undefined,
+        regionMode: region ? regionMode : undefined,
+      }));
+      addNodes(created, parentId);
+      exploreJobsRef.current = created.map((node) => node.jobId!);
+
+      setExploreStatus("polling");
+
+      setExploreMessage(
+        created.length === 1 ? "Video is being generated..." : `${created.length} variants are being generated...`
+      );
+      setExploreJobs(created.map(() => null));
+
+      const results = await Promise.allSettled(
+        created.map((node, i) =>
+          waitForJob(node.jobId!, (job) => setExploreJobs((prev) => prev.map((p, j) => (j === i ? job : p))))
+        )
+      );
+      const firstReady = results.findIndex((result) => result.status === "fulfilled");
+
+      setExploreChain((prev) =>
+        prev.map((node) => {
+          const i = created.findIndex((c) => c.id === node.id);
+          if (i < 0) return node;
+          const result = results[i];
+          return result.status === "fulfilled"
+            ? { ...node, videoUrl: result.value, status: "ready" as const, jobId: undefined }
+            : { ...node, status: "failed" as const, error: result.reason?.message ?? "Generation failed" };
+        })
+      );
+      if (firstReady >= 0) selectNode(created[firstReady].id);
+
+      if (firstReady < 0) {
+        const [first] = results as PromiseRejectedResult[];
+        throw first.reason instanceof Error ? first.reason : new Error("Explore generation failed");
+      }
+
+      const readyCount = results.filter((result) => result.status === "fulfilled").length;
+      setCapturedFrame(null);
+      setExplorePrompt("");
+      setExploreStatus("done");
+      setExploreMessage(
+        created.length === 1
+          ? "Exploration video generated! Pause and click to go deeper."
+          : `${readyCount} of ${created.length} variants ready. Compare them and mark your preferred continuation.`
+      );
+      notifyInBackground(
+        "Exploration ready",
+        created.length === 1 ? created[0].prompt : `${readyCount} of ${created.length} variants are ready.`
+      );
+    } catch (err: unknown) {
+      noteRequestError(err);
+      const message = err instanceof Error ? err.message : "An error occurred";
+      // Anything still pending will never finish from this request
+      setExploreChain((prev) =>
+        prev.map((node) =>
+          node.status === "pending" && created.some((c) => c.id === node.id)
+            ? { ...node, status: "failed" as const, error: message }
+            : node
+        )
+      );
+      if (err instanceof JobCancelledError) {
+        setExploreStatus("cancelled");
+        setExploreMessage("Generation cancelled. Open the node in the tree to retry it.");
+      } else {
+        setExploreStatus("error");
+        setExploreMessage(message);
+        notifyInBackground("Exploration failed", message);
+      }
+    } finally {
+      exploreJobsRef.current = [];
+      refreshUsage(projectId);
+    }
+  };
+
+  // Cancel the variants of the explore request in progress
+  const handleCancelExplore = () =>
+    Promise.all(exploreJobsRef.current.map(cancelJob)).catch((err: unknown) =>
+      setExploreMessage(err instanceof Error ? err.message : "Failed to cancel")
+    );
+
+  // Generate a failed or cancelled node again from the same frame and prompt
+  const handleRetryNode = async (index: number) => {
+    const node = exploreChain[index];
+    if (!node.jobId) return;
+
+    try {
+      const jobId = await retryJob(node.jobId);
+      updateNode(node.id, { status: "pending", jobId, error: undefined });
+      await watchNode(node.id, jobId);
+    } catch (err: unknown) {
+      noteRequestError(err);
+      updateNode(node.id, { error: err instanceof Error ? err.message : "Retry failed" });
+    } finally {
+      refreshUsage(projectId);
+    }
+  };
+
+  // Extend a clip from its last frame, `times` times in a row, each new clip
+  // continuing the one before. The server takes the frame from the stored
+  // clip. Stops at the first failure or cancellation.
+  const handleContinue = async (clip: string, videoUrl: string, parentIndex: number, prompt: string, times: number) => {
+    const controls = parentIndex >= 0 ? exploreChain[parentIndex].controls : undefined;
+    let source = { clip, videoUrl, parentId: parentIndex >= 0 ? exploreChain[parentIndex].id : null };
+    setCapturedFrame(null);
+    requestNotifications();
+
+    for (let step = 1; step <= times; step++) {
+      setExploreStatus("generating");
+      setExploreMessage(times === 1 ? "Continuing the clip..." : `Continuing the clip (${step} of ${times})...`);
+      let node: ExploreNode | null = null;
+      const nodeId = crypto.randomUUID();
+
+      try {
+        const res = await fetch("/api/explore", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            continueFrom: source.videoUrl,
+            prompt,
+            nodeIds: [nodeId],
+            sourceClip: source.clip,
+            controls,
+            settings: settings ?? undefined,
+            projectId: projectId ?? undefined,
+            force: forceRegenerate,
+          }),
+        });
+        if (!res.ok) throw await readError(res, "Continuation failed");
+
+        const { variants: [variant], frameImage, captureTime } = await res.json() as {
+          variants: { jobId: string; prompt: string; settings: ClipSettings; cached: boolean }[];
+          frameImage: string;
+          captureTime: number;
+        };
+        const created: ExploreNode = {
+          id: nodeId,
+          prompt: variant.prompt,
+          frameImage,
+          videoUrl: "",
+          status: "pending",
+          jobId: variant.jobId,
+          parentIndex: -1, // set by addNodes
+          sourceClip: source.clip,
+          captureTime,
+          settings: variant.settings,
+          cached: variant.cached || undefined,
+          controls,
+          continued: true,
+        };
+        node = created;
+
+        setExploreIndex(addNodes([created], source.parentId));
+        exploreJobsRef.current = [variant.jobId];
+        setExploreStatus("polling");
+        setExploreJobs([null]);
+
+        const url = await waitForJob(variant.jobId, (job) => setExploreJobs([job]));
+        updateNode(created.id, { status: "ready", videoUrl: url, jobId: undefined });
+        source = { clip: created.id, videoUrl: url, parentId: created.id };
+      } catch (err: unknown) {
+        noteRequestError(err);
+        const message = err instanceof Error ? err.message : "Continuation failed";
+        if (node) updateNode(node.id, { status: "failed", error: message });
+        setExploreStatus(err instanceof JobCancelledError ? "cancelled" : "error");
+        setExploreMessage(err instanceof JobCancelledError ? "Continuation cancelled." : message);
+        if (!(err instanceof JobCancelledError)) notifyInBackground("Continuation failed", message);
+        return;
+      } finally {
+        exploreJobsRef.current = [];
+        refreshUsage(projectId);
+      }
+    }
+
+    setExploreStatus("done");
+    setExploreMessage(times === 1 ? "Clip continued." : `Clip continued ${times} times.`);
+    notifyInBackground("Continuation ready", times === 1 ? "The clip has been continued." : `The clip has been continued ${times} times.`);
+  };
+
+  // Generate a transition from the end of one clip into the start of
+  // another. The server resolves both from the saved project, so the latest
+  // tree is saved first. The bridge goes below the clip it starts from.
+  const handleBridge = async (from: string, to: string, prompt: string | undefined) => {
+    if (!projectId) return;
+    requestNotifications();
+    setCapturedFrame(null);
+    setExploreStatus("generating");
+    setExploreMessage("Starting the bridge...");
+    const nodeId = crypto.randomUUID();
+    let node: ExploreNode | null = null;
+
+    try {
+      await saveProjectTree(projectId, exploreChain, exploreIndex, settings);
+      const res = await fetch("/api/bridge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId,
+          from,
+          to,
+          nodeId,
+          prompt,
+          settings: settings ?? undefined,
+          force: forceRegenerate,
+        }),
+      });
+      if (!res.ok) throw await readError(res, "Bridge failed");
+
+      const bridge = await res.json() as {
+        jobId: string;
+        mode: "keyframes" | "crossfade";
+        prompt: string;
+        settings: ClipSettings;
+        cached: boolean;
+        frameImage: string;
+        bridge: { from: string; to: string };
+        parentIndex: number; // -1 when it starts from a root clip
+        captureTime: number;
+      };
+      const created: ExploreNode = {
+        id: nodeId,
+        prompt: bridge.prompt,
+        frameImage: bridge.frameImage,
+        videoUrl: "",
+        status: "pending",
+        jobId: bridge.jobId,
+        parentIndex: -1, // set by addNodes
+        sourceClip: from,
+        captureTime: bridge.captureTime,
+        settings: bridge.settings,
+        cached: bridge.cached || undefined,
+        bridge: bridge.bridge,
+      };
+      node = created;
+      setExploreIndex(addNodes([created], bridge.parentIndex >= 0 ? from : null));
+      exploreJobsRef.current = [bridge.jobId];
+      setExploreStatus("polling");
+      setExploreMessage(bridge.mode === "keyframes" ? "Generating the bridge..." : "Crossfading the two frames...");
+      setExploreJobs([null]);
+
+      const url = await waitForJob(bridge.jobId, (job) => setExploreJobs([job]));
+      updateNode(created.id, { status: "ready", videoUrl: url, jobId: undefined });
+      setExploreStatus("done");
+      setExploreMessage(bridge.mode === "keyframes" ? "Bridge generated." : "Bridge crossfaded; this model can't generate between two keyframes.");
+      notifyInBackground("Bridge ready", bridge.prompt);
+    } catch (err: unknown) {
+      noteRequestError(err);
+      const message = err instanceof Error ? err.message : "Bridge failed";
+      if (node) updateNode(node.id, { status: "failed", error: message });
+      setExploreStatus(err instanceof JobCancelledError ? "cancelled" : "error");
+      setExploreMessage(err instanceof JobCancelledError ? "Bridge cancelled." : message);
+      if (!(err instanceof JobCancelledError)) notifyInBackground("Bridge failed", message);
+    } finally {
+      exploreJobsRef.current = [];
+      refreshUsage(projectId);
+    }
+  };
+
+  // Mark one variant as the preferred continuation and open it
+  const handlePreferVariant = (index: number) => {
+    const { variantGroup } = exploreChain[index];
+    setExploreChain((prev) =>
+      prev.map((node, i) => (node.variantGroup === variantGroup ? { ...node, preferred: i === index } : node))
+    );
+    navigateTo(index);
+  };
+
+  // Remove nodes from the tree, keeping the selection on the nearest survivor
+  const removeFromTree = (removed: Set<number>) => {
+    const { nodes, remap } = removeNodes(exploreChain, removed);
+    setExploreChain(nodes);
+    setExploreIndex(remap(exploreIndex));
+    setSeekTarget(null);
+  };
+
+  // Deleting is held off while new nodes are on their way, as they are placed
+  // below nodes that might otherwise be gone by the time they arrive
+  const handleDeleteBranch = (index: number) => {
+    if (exploreBusy) return;
+    if (!window.confirm(`Delete "${exploreChain[index].prompt}" and everything explored from it?`)) return;
+    removeFromTree(new Set([index, ...descendantsOf(exploreChain, index)]));
+  };
+
+  const handlePruneChildren = (index: number) => {
+    if (exploreBusy) return;
+    if (!window.confirm(`Delete everything explored from "${exploreChain[index].prompt}"?`)) return;
+    removeFromTree(descendantsOf(exploreChain, index));
+  };
+
+  // Render the current breadcrumb path into a single film
+  const handleExportPath = async () => {
+    if (!projectId || breadcrumbPath.length === 0) return;
+
+    setExportStatus("generating");
+    setExportMessage("Starting export...");
+    setExportUrl(null);
+
+    try {
+      // Make sure the server has the latest tree before it resolves the path
+      await saveProjectTree(projectId, exploreChain, exploreIndex, settings);
+
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId,
+          nodeIds: breadcrumbPath.map((idx) => exploreChain[idx].id),
+          crossfade,
+        }),
+      });
+
+      if (!res.ok) throw await readError(res, "Export failed");
+
+      const { jobId } = await res.json();
+
+      setExportStatus("polling");
+      const url = await waitForJob(jobId, (job) => setExportMessage(`Exporting film... ${describeJob(job)}`));
+
+      setExportUrl(url);
+      setExportStatus("done");
+      setExportMessage("Film exported.");
+    } catch (err: unknown) {
+      noteRequestError(err);
+      setExportStatus("error");
+      setExportMessage(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  // Download the project with its clips and images as a zip. The server
+  // bundles what it has saved, so the latest tree is saved first.
+  const handleDownloadBundle = async () => {
+    if (!projectId) return;
+    setBundleMessage("");
+    try {
+      await saveProjectTree(projectId, exploreChain, exploreIndex, settings);
+    } catch (err: unknown) {
+      noteRequestError(err);
+      setBundleMessage(`Could not save the project before bundling it: ${err instanceof Error ? err.message : "unknown error"}`);
+      return;
+    }
+    window.location.href = `/api/projects/${projectId}/bundle`;
+  };
+
+  // Create a project from a bundle and open it
+  const handleImportBundle = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setBundleMessage("");
+    setImporting(true);
+    try {
+      const res = await fetch("/api/projects/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: file,
+      });
+      if (!res.ok) throw await readError(res, "Import failed");
+      const imported: Project = await res.json();
+      window.location.assign(`/projects/${imported.id}`);
+    } catch (err: unknown) {
+      noteRequestError(err);
+      setBundleMessage(err instanceof Error ? err.message : "Import failed");
+      setImporting(false);
+    }
+  };
+
+  // Navigate breadcrumb — move index without deleting nodes
+  const navigateTo = (index: number) => {
+    setExploreIndex(index);
+    setSeekTarget(null);
+    setCapturedFrame(null);
+    setExplorePrompt("");
+    setExploreStatus("idle");
+    setExploreMessage("");
+  };
+
+  // Reopen a node's frame, prompt and controls from its branch point, so it
+  // can be tweaked and generated again as a sibling
+  const handleEditNode = (index: number) => {
+    const node = exploreChain[index];
+    navigateTo(node.parentIndex);
+    setCapturedFrame(node.frameImage);
+    setCaptureSource(node.sourceClip && node.captureTime !== undefined ? { clip: node.sourceClip, time: node.captureTime } : null);
+    setExplorePrompt(node.prompt);
+    setPromptControls(node.controls ?? {});
+    setRegion(node.region ?? null);
+    setRegionMode(node.regionMode ?? "crop");
+  };
+
+  // Return to the clip the current node branched from, cued at the capture point
+  const jumpToBranchPoint = () => {
+    if (!currentNode?.sourceClip || currentNode.captureTime === undefined) return;
+    const { parentIndex, sourceClip, captureTime } = currentNode;
+    if (parentIndex >= 0) navigateTo(parentIndex);
+    else goToRoot();
+    setSeekTarget({ clip: sourceClip, time: captureTime });
+  };
+
+  const goToRoot = () => {
+    setExploreIndex(-1);
+    setSeekTarget(null);
+    setCapturedFrame(null);
+    setExplorePrompt("");
+    setExploreStatus("idle");
+    setExploreMessage("");
+  };
+
+  // Build the breadcrumb path from current node back to root
+  const breadcrumbPath: number[] = [];
+  {
+    let idx = exploreIndex;
+    while (idx >= 0 && idx < exploreChain.length) {
+      breadcrumbPath.unshift(idx);
+      idx = exploreChain[idx]?.parentIndex ?? -1;
+    }
+  }
+
+  const currentNode = exploreChain[exploreIndex] ?? null;
+  const currentExploreVideo = currentNode?.videoUrl ?? null;
+
+  // Siblings generated alongside the current node, for side-by-side comparison
+  const currentVariants = currentNode?.variantGroup
+    ? exploreChain
+        .map((node, index) => ({ node, index }))
+        .filter(({ node }) => node.variantGroup === currentNode.variantGroup)
+    : [];
+
+  const rootClips = videos
+    ? [
+        { key: "composite", url: videos.composite },
+        { key: "setting", url: videos.setting },
+        ...PERSON_ANGLES.map((angle) => ({ key: `person-${angle}`, url: videos.person[angle] })),
+      ].filter((clip): clip is { key: string; url: string } => !!clip.url)
+    : [];
+
+  // A root clip's heading or a node's prompt
+  const clipName = (id: string) =>
+    rootClips.some(({ key }) => key === id) ? clipLabel(id) : exploreChain.find((node) => node.id === id)?.prompt ?? "a deleted clip";
+
+  // Every clip with a finished video, as either end of a bridge
+  const bridgeClips = [
+    ...rootClips.map(({ key }) => ({ id: key, label: clipLabel(key) })),
+    ...exploreChain.filter((node) => node.videoUrl).map((node) => ({ id: node.id, label: node.prompt })),
+  ];
+
+  // Markers for the branches that were captured from a clip
+  const branchMarkers = (clip: string): ClipMarker[] =>
+    exploreChain
+      .filter((node) => node.sourceClip === clip && node.captureTime !== undefined)
+      .map((node) => ({ id: node.id, time: node.captureTime!, label: node.prompt }));
+
+  const openBranch = (nodeId: string) => {
+    const index = exploreChain.findIndex((node) => node.id === nodeId);
+    if (index >= 0) navigateTo(index);
+  };
+
+  const isExploring = exploreIndex >= 0 || capturedFrame;
+  // Nothing new is explored while a request or a scripted run is in progress
+  const exploreBusy = exploreStatus === "generating" || exploreStatus === "polling" || runActive;
+
+  const failedRootClips = Object.keys(rootJobs).filter((key) => rootJobs[key].error);
+
+  // Estimated credits for the next generate or explore request
+  const modelSpec = settings ? settingsInfo?.models[settings.model] : undefined;
+  const clipCredits = modelSpec && settings ? modelSpec.creditsPerSecond * settings.duration : null;
+  const generateClips = 1 + images.slice(0, 4).filter((slot) => slot.preview).length;
+  const exploreClips = splitPrompts ? explorePrompt.split("\n").filter((line) => line.trim()).length : variantCount;
+
+  return (
+    <main className="min-h-screen bg-gray-950 text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-3xl font-bold mb-2">Runway Video Generator</h1>
+          {user && (
+            <div className="text-sm text-gray-400 mt-2">
+              Signed in as {user.name} ·{" "}
+              <button onClick={handleSignOut} className="text-indigo-400 hover:text-indigo-300">Sign out</button>
+            </div>
+          )}
+        </div>
+        <p className="text-gray-400 mb-8">
+          Upload profile photos and a background image to generate cinematic videos.
+          Then explore the world by pausing and clicking on any video.
+        </p>
+
+        {projectId && (
+          <p className="-mt-6 mb-8 text-sm text-gray-400">
+            <button onClick={handleDownloadBundle} className="text-indigo-400 hover:text-indigo-300">
+              Download project bundle
+            </button>{" "}
+            to move this project to another server.
+            {bundleMessage && <span className="ml-2 text-red-400">{bundleMessage}</span>}
+          </p>
+        )}
+
+        {runActive && (
+          <div className="mb-8 p-4 rounded-lg bg-gray-800 text-gray-300">
+            A scripted run is generating this project ({Math.round((runJob?.progress ?? 0) * 100)}% done). The tree
+            updates as clips finish and can be changed once the run ends.
+          </div>
+        )}
+        {runJob && (runJob.status === "failed" || runJob.status === "cancelled") && (
+          <div className="mb-8 p-4 rounded-lg bg-red-900/50 text-red-300">
+            The scripted run {runJob.status}: {runJob.error ?? "unknown error"}. What finished is kept below.
+          </div>
+        )}
+
+        {saveError && !signedOut && (
+          <div className="mb-8 p-4 rounded-lg bg-red-900/50 text-red-300">
+            Your latest changes could not be saved: {saveError}. They will be lost if you leave the page.
+          </div>
+        )}
+
+        {signedOut && (
+          <div className="mb-8 p-4 rounded-lg bg-yellow-900/50 text-yellow-200">
+            Your session has ended.{" "}
+            <button onClick={() => window.location.reload()} className="underline hover:text-yellow-100">
+              Sign in again
+            </button>{" "}
+            to keep working; your project is saved up to your last change.
+          </div>
+        )}
+
+        {/* Person Photos */}
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold mb-1">Person Photos</h2>
+          <p className="text-gray-400 text-sm mb-4">Each photo you add is animated into its own clip for that angle.</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {images.slice(0, 4).map((slot, i) => (
+              <div key={slot.key} className="relative">
+                <input
+                  ref={(el) => { fileInputRefs.current[i] = el; }}
+                  type="file"
+                  accept={IMAGE_TYPES.join(",")}
+                  className="hidden"
+                  onChange={(e) => handleImageSelect(i, e)}
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRefs.current[i]?.click()}
+                  className="w-full aspect-square rounded-xl border-2 border-dashed border-gray-600 hover:border-gray-400 transition-colors flex flex-col items-center justify-center overflow-hidden bg-gray-900"
+                >
+                  {slot.preview ? (
+                    <img src={slot.preview} alt={slot.label} className="w-full h-full object-cover" />
+                  ) : (
+                    <>
+                      <svg className="w-8 h-8 text-gray-500 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      <span className="text-sm text-gray-500">{slot.label}</span>
+                    </>
+                  )}
+                </button>
+                {slot.preview && (
+                  <button
+                    onClick={() => removeImage(i)}
+                    className="absolute top-2 right-2 bg-red-600 hover:bg-red-700 rounded-full w-6 h-6 flex items-center justify-center text-xs"
+                  >
+                    X
+                  </button>
+                )}
+                <p className="text-center text-sm text-gray-400 mt-1">
+                  {slot.label} {i === 0 && <span className="text-red-400">*</span>}
+                </p>
+                {slot.error && <p className="text-center text-xs text-red-400 mt-1">{slot.error}</p>}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Background Image */}
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Background / Setting Image <span className="text-red-400">*</span></h2>
+          <div className="max-w-md">
+            <input
+              ref={(el) => { fileInputRefs.current[4] = el; }}
+              type="file"
+              accept={IMAGE_TYPES.join(",")}
+              className="hidden"
+              onChange={(e) => handleImageSelect(4, e)}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRefs.current[4]?.click()}
+              className="w-full aspect-video rounded-xl border-2 border-dashed border-gray-600 hover:border-gray-400 transition-colors flex flex-col items-center justify-center overflow-hidden bg-gray-900"
+            >
+              {images[4].preview ? (
+                <img src={images[4].preview} alt="Background" className="w-full h-full object-cover" />
+              ) : (
+                <>
+                  <svg className="w-10 h-10 text-gray-500 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  <span className="text-gray-500">Upload background image</span>
+                </>
+              )}
+            </button>
+            {images[4].preview && (
+              <button
+                onClick={() => removeImage(4)}
+                className="mt-2 text-sm text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            )}
+            {images[4].error && <p className="mt-2 text-sm text-red-400">{images[4].error}</p>}
+          </div>
+        </section>
+
+        {/* Generation settings, shared by generate and explore */}
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Generation Settings</h2>
+          <SettingsPanel
+            info={settingsInfo}
+            value={settings}
+            onChange={setSettings}
+            disabled={status === "generating" || status === "polling" || exploreStatus === "generating"}
+          />
+          {usage && (
+            <p className="mt-2 text-sm text-gray-400">
+              {usage.project !== null && (
+                <>
+                  This project: {usage.project}
+                  {usage.limits.project !== null && ` / ${usage.limits.project}`} credits ·{" "}
+                </>
+              )}
+              Last 24 hours: {usage.today}
+              {usage.limits.daily !== null && ` / ${usage.limits.daily}`} credits
+            </p>
+          )}
+        </section>
+
+        {/* Generate Button */}
+        <button
+          onClick={handleGenerate}
+          disabled={!allRequiredUploaded || cooldown > 0 || (status !== "idle" && status !== "done" && status !== "error" && status !== "cancelled")}
+          className="px-8 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-semibold text-lg transition-colors"
+        >
+          {status === "generating" || status === "polling" ? "Generating..." : cooldown > 0 ? `Try again in ${cooldown}s` : "Generate Videos"}
+        </button>
+        {clipCredits !== null && (
+          <span className="ml-4 text-sm text-gray-400">
+            ≈ {generateClips * clipCredits} credits for {generateClips} clips
+          </span>
+        )}
+        <label className="ml-4 text-sm text-gray-400 inline-flex items-center gap-2">
+          <input type="checkbox" checked={forceRegenerate} onChange={(e) => setForceRegenerate(e.target.checked)} />
+          Force regenerate
+        </label>
+        {status === "polling" && (
+          <button
+            onClick={handleCancelGenerate}
+            className="ml-3 px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold text-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+
+        {/* Status */}
+        {status !== "idle" && (
+          <div className={`mt-4 p-4 rounded-lg ${status === "error" ? "bg-red-900/50 text-red-300" : status === "done" ? "bg-green-900/50 text-green-300" : "bg-gray-800 text-gray-300"}`}>
+            {(status === "generating" || status === "polling" || status === "uploading") && (
+              <span className="inline-block w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2 align-middle" />
+            )}
+            {statusMessage}
+            {status === "polling" && (
+              <div className="space-y-3 mt-4">
+                {Object.entries(rootJobs).map(([key, clip]) => (
+                  <JobProgress key={clip.jobId} label={`${clipLabel(key)}${clip.cached ? " (cached)" : ""}`} job={clip.job} />
+                ))}
+              </div>
+            )}
+            {failedRootClips.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {failedRootClips.map((key) => (
+                  <button
+                    key={key}
+                    onClick={() => handleRetryClip(key)}
+                    className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm text-white"
+                  >
+                    Retry {clipLabel(key)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Video Results */}
+        {videos && !isExploring && (
+          <section className="mt-10">
+            <h2 className="text-2xl font-semibold mb-6">Generated Videos</h2>
+            <p className="text-gray-400 text-sm mb-4">Pause a video and click on it, or step to a frame and choose Use this frame, to explore deeper from it.</p>
+            {compositeSkipped && (
+              <p className="text-gray-400 text-sm mb-4">
+                There is no Person in Setting clip: the front photo&apos;s background isn&apos;t plain enough to cut the person out of.
+              </p>
+            )}
+            <div className="grid md:grid-cols-2 gap-6">
+              {rootClips.map(({ key, url }) => (
+                <div key={key} className={key === "composite" ? "md:col-span-2" : undefined}>
+                  <h3 className="text-lg font-medium mb-2">
+                    {clipLabel(key)}
+                    {rootJobs[key]?.cached && <CachedBadge />}
+                  </h3>
+                  <ClipPlayer
+                    src={url}
+                    downloadName={`${key}-video.mp4`}
+                    markers={branchMarkers(key)}
+                    startAt={seekTarget?.clip === key ? seekTarget.time : undefined}
+                    onCapture={(time) => captureFrame(key, url, time)}
+                    onMarkerClick={openBranch}
+                  />
+                  <ContinueControl
+                    defaultPrompt={DEFAULT_CONTINUE_PROMPT}
+                    disabled={exploreBusy || cooldown > 0}
+                    onContinue={(prompt, times) => handleContinue(key, url, -1, prompt, times)}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Exploration View */}
+        {videos && isExploring && (
+          <section className="mt-10">
+            {/* Breadcrumb */}
+            <nav className="flex items-center gap-2 mb-6 flex-wrap text-sm">
+              <button
+                onClick={goToRoot}
+                className="text-indigo-400 hover:text-indigo-300 font-medium"
+              >
+                Original Videos
+              </button>
+              {breadcrumbPath.map((nodeIdx, i) => (
+                <span key={exploreChain[nodeIdx].id} className="flex items-center gap-2">
+                  <span className="text-gray-600">/</span>
+                  <button
+                    onClick={() => navigateTo(nodeIdx)}
+                    className={`max-w-[200px] truncate ${
+                      nodeIdx === exploreIndex
+                        ? "text-white font-medium"
+                        : "text-indigo-400 hover:text-indigo-300"
+                    }`}
+                  >
+                    {exploreChain[nodeIdx].prompt}
+                  </button>
+                </span>
+              ))}
+              {breadcrumbPath.length > 0 && (
+                <span className="ml-auto flex items-center gap-2">
+                  <select
+                    value={crossfade}
+                    onChange={(e) => setCrossfade(Number(e.target.value))}
+                    className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300"
+                  >
+                    <option value={0}>Hard cuts</option>
+                    <option value={0.5}>0.5s crossfade</option>
+                    <option value={1}>1s crossfade</option>
+                  </select>
+                  <button
+                    onClick={handleExportPath}
+                    disabled={!projectId || exportStatus === "generating" || exportStatus === "polling"}
+                    className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded font-medium"
+                  >
+                    {exportStatus === "generating" || exportStatus === "polling" ? "Exporting..." : "Export this path"}
+                  </button>
+                </span>
+              )}
+            </nav>
+
+            {/* Export status */}
+            {exportStatus !== "idle" && (
+              <div className={`mb-6 p-3 rounded-lg text-sm ${exportStatus === "error" ? "bg-red-900/50 text-red-300" : exportStatus === "done" ? "bg-green-900/50 text-green-300" : "bg-gray-800 text-gray-300"}`}>
+                {exportMessage}
+                {exportUrl && (
+                  <a href={exportUrl} download="exploration-film.mp4" className="ml-2 text-indigo-400 hover:text-indigo-300">
+                    Download film
+                  </a>
+                )}
+              </div>
+            )}
+
+            {/* Node that is still generating or failed */}
+            {currentNode && !currentExploreVideo && (
+              <div className={`mb-6 p-4 rounded-lg ${currentNode.status === "failed" ? "bg-red-900/50 text-red-300" : "bg-gray-800 text-gray-300"}`}>
+                <h3 className="text-lg font-medium mb-1">{currentNode.prompt}</h3>
+                {currentNode.status === "failed"
+                  ? `Generation failed: ${currentNode.error ?? "unknown error"}`
+                  : "This video is still being generated."}
+                {currentNode.status === "failed" && currentNode.jobId && !runActive && (
+                  <button
+                    onClick={() => handleRetryNode(exploreIndex)}
+                    className="ml-3 px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm text-white"
+                  >
+                    Retry
+                  </button>
+                )}
+                {currentNode.status === "failed" && !runActive && (
+                  <button
+                    onClick={() => handleEditNode(exploreIndex)}
+                    className="ml-3 px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm text-white"
+                  >
+                    Edit &amp; re-run
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Current explore video */}
+            {currentNode && currentExploreVideo && (
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-2">
+                  {currentNode.prompt}
+                  {currentNode.cached && <CachedBadge />}
+                  {currentNode.bridge && (
+                    <span className="ml-3 text-sm font-normal text-sky-300">
+                      Bridge: {clipName(currentNode.bridge.from)} → {clipName(currentNode.bridge.to)}
+                    </span>
+                  )}
+                  {currentNode.settings && (
+                    <span className="ml-3 text-sm font-normal text-gray-500">{describeSettings(currentNode.settings)}</span>
+                  )}
+                </h3>
+                <ClipPlayer
+                  key={currentNode.id}
+                  src={currentExploreVideo}
+                  className="w-full max-w-2xl"
+                  markers={branchMarkers(currentNode.id)}
+                  startAt={seekTarget?.clip === currentNode.id ? seekTarget.time : undefined}
+                  onCapture={(time) => captureFrame(currentNode.id, currentExploreVideo, time)}
+                  onMarkerClick={openBranch}
+                />
+                <ContinueControl
+                  key={`continue-${currentNode.id}`}
+                  defaultPrompt={currentNode.prompt}
+                  disabled={exploreBusy || cooldown > 0}
+                  onContinue={(prompt, times) => handleContinue(currentNode.id, currentExploreVideo, exploreIndex, prompt, times)}
+                />
+                {currentVariants.length > 1 && (
+                  <VariantPicker
+                    variants={currentVariants}
+                    currentIndex={exploreIndex}
+                    onOpen={navigateTo}
+                    onPrefer={handlePreferVariant}
+                  />
+                )}
+                {currentNode.region && (
+                  <div className="mt-3 flex items-center gap-3 text-sm text-gray-400">
+                    <RegionSelector src={currentNode.frameImage} alt="Parent frame" value={currentNode.region} className="w-40" />
+                    {currentNode.regionMode === "hint" ? "Pushed in on this region by prompt" : "Zoomed into this region"} of the parent frame
+                  </div>
+                )}
+                <p className="text-gray-400 text-sm mt-2">
+                  Pause and click to explore further.
+                  <button onClick={() => handleEditNode(exploreIndex)} className="ml-3 text-indigo-400 hover:text-indigo-300">
+                    Edit &amp; re-run
+                  </button>
+                  {currentNode.sourceClip && currentNode.captureTime !== undefined && (
+                    <button onClick={jumpToBranchPoint} className="ml-3 text-indigo-400 hover:text-indigo-300">
+                      Back to branch point ({currentNode.parentIndex >= 0 ? exploreChain[currentNode.parentIndex].prompt : clipLabel(currentNode.sourceClip)} at {formatTime(currentNode.captureTime)})
+                    </button>
+                  )}
+                </p>
+              </div>
+            )}
+
+            {/* Captured frame + prompt input */}
+            {capturedFrame && (
+              <div className="mt-6 p-6 bg-gray-900 rounded-xl border border-gray-800">
+                <h3 className="text-lg font-semibold mb-4">Explore this moment</h3>
+                <div className="flex gap-6 flex-col md:flex-row">
+                  <div className="shrink-0">
+                    <p className="text-sm text-gray-400 mb-2">Captured frame — click or drag to zoom into a region:</p>
+                    <RegionSelector
+                      src={capturedFrame}
+                      alt="Captured frame"
+                      value={region}
+                      onChange={setRegion}
+                      className="w-64"
+                    />
+                    {region && (
+                      <div className="mt-2 text-sm text-gray-400 space-y-1">
+                        <label className="flex items-center gap-2">
+                          <input type="radio" checked={regionMode === "crop"} onChange={() => setRegionMode("crop")} />
+                          Crop and upscale the region
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input type="radio" checked={regionMode === "hint"} onChange={() => setRegionMode("hint")} />
+                          Keep the frame, push in by prompt
+                        </label>
+                        <button onClick={() => setRegion(null)} className="text-indigo-400 hover:text-indigo-300">
+                          Clear region
+                        </button>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => setCapturedFrame(null)}
+                      className="mt-2 block text-sm text-red-400 hover:text-red-300"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm text-gray-400 mb-2">
+                      Describe what you want to explore from this frame:
+                    </label>
+                    <textarea
+                      value={explorePrompt}
+                      onChange={(e) => setExplorePrompt(e.target.value)}
+                      placeholder="e.g. Zoom into the castle in the distance, dramatic clouds rolling in..."
+                      className="w-full h-32 bg-gray-800 border border-gray-700 rounded-lg p-3 text-white placeholder-gray-500 resize-none focus:outline-none focus:border-indigo-500"
+                    />
+                    <PromptBuilder
+                      options={settingsInfo?.promptOptions ?? null}
+                      value={promptControls}
+                      onChange={setPromptControls}
+                    />
+                    <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-400">
+                      <label className="flex items-center gap-2">
+                        Variants
+                        <select
+                          value={variantCount}
+                          onChange={(e) => setVariantCount(Number(e.target.value))}
+                          disabled={splitPrompts}
+                          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 disabled:opacity-50"
+                        >
+                          {[1, 2, 3, 4].map((n) => (
+                            <option key={n} value={n}>{n}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={splitPrompts}
+                          onChange={(e) => setSplitPrompts(e.target.checked)}
+                        />
+                        One prompt per line (up to 4)
+                      </label>
+                    </div>
+                    <button
+                      onClick={handleExplore}
+                      disabled={!explorePrompt.trim() || cooldown > 0 || runActive || (exploreStatus !== "idle" && exploreStatus !== "done" && exploreStatus !== "error" && exploreStatus !== "cancelled")}
+                      className="mt-3 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+                    >
+                      {exploreStatus === "generating" || exploreStatus === "polling" ? "Generating..." : cooldown > 0 ? `Try again in ${cooldown}s` : "Explore"}
+                    </button>
+                    {clipCredits !== null && exploreClips > 0 && (
+                      <span className="mt-3 ml-3 text-sm text-gray-400">≈ {exploreClips * clipCredits} credits</span>
+                    )}
+                    <label className="mt-3 ml-3 text-sm text-gray-400 inline-flex items-center gap-2">
+                      <input type="checkbox" checked={forceRegenerate} onChange={(e) => setForceRegenerate(e.target.checked)} />
+                      Force regenerate
+                    </label>
+                    {exploreStatus === "polling" && (
+                      <button
+                        onClick={handleCancelExplore}
+                        className="mt-3 ml-3 px-6 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg font-semibold transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Explore status */}
+            {exploreStatus !== "idle" && (
+              <div className={`mt-4 p-4 rounded-lg ${exploreStatus === "error" ? "bg-red-900/50 text-red-300" : exploreStatus === "done" ? "bg-green-900/50 text-green-300" : "bg-gray-800 text-gray-300"}`}>
+                {(exploreStatus === "generating" || exploreStatus === "polling") && (
+                  <span className="inline-block w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2 align-middle" />
+                )}
+                {exploreMessage}
+                {exploreStatus === "polling" && (
+                  <div className="space-y-3 mt-4">
+                    {exploreJobs.map((job, i) => (
+                      <JobProgress key={i} label={exploreJobs.length === 1 ? "Video" : `Variant ${i + 1}`} job={job} />
+                    ))}
+                  </div>
+                )}
+                {/* Continuations and bridges have no capture panel with its own Cancel button */}
+                {exploreStatus === "polling" && !capturedFrame && (
+                  <button
+                    onClick={handleCancelExplore}
+                    className="mt-3 px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm text-white"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Exploration tree */}
+        {videos && exploreChain.length > 0 && (
+          <section className="mt-10">
+            <h3 className="text-sm font-medium text-gray-400 mb-3">All explorations</h3>
+            <ExploreTree
+              nodes={exploreChain}
+              rootPreview={videos.composite ?? videos.setting}
+              currentIndex={exploreIndex}
+              onSelect={(index) => (index >= 0 ? navigateTo(index) : goToRoot())}
+              onDeleteBranch={handleDeleteBranch}
+              onPruneChildren={handlePruneChildren}
+              clipName={clipName}
+              readOnly={exploreBusy}
+            />
+            {projectId && (
+              <div className="mt-4">
+                <BridgeControl
+                  clips={bridgeClips}
+                  disabled={exploreBusy || cooldown > 0}
+                  onBridge={handleBridge}
+                />
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Saved projects */}
+        {!projectId && (
+          <section className="mt-12">
+            <h2 className="text-sm font-medium text-gray-400 mb-3">Saved explorations</h2>
+            <p className="mb-3 text-sm text-gray-400">
+              <input ref={bundleInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportBundle} />
+              <button
+                onClick={() => bundleInputRef.current?.click()}
+                disabled={importing}
+                className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-500"
+              >
+                {importing ? "Importing..." : "Import a project bundle"}
+              </button>
+              {bundleMessage && <span className="ml-2 text-red-400">{bundleMessage}</span>}
+            </p>
+            <ul className="space-y-1 text-sm">
+              {savedProjects.map((saved) => (
+                <li key={saved.id}>
+                  <Link href={`/projects/${saved.id}`} className="text-indigo-400 hover:text-indigo-300">
+                    {saved.name}
+                  </Link>
+                  <span className="text-gray-600 ml-2">
+                    updated {new Date(saved.updatedAt).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <p className="text-gray-600 text-sm mt-12">* Required fields. Front photo and background image are required at minimum. Take the front photo against a plain wall or green screen so the person can be cut out for the Person in Setting clip.</p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import type { ExploreNode } from "@/lib/types";
+
+type VariantPickerProps = {
+  variants: { node: ExploreNode; index: number }[];
+  currentIndex: number;
+  onOpen: (index: number) => void;
+  onPrefer: (index: number) => void;
+};
+
+// Alternatives generated from the same frame, side by side, with one marked
+// as the preferred continuation.
+export default function VariantPicker({ variants, currentIndex, onOpen, onPrefer }: VariantPickerProps) {
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-medium text-gray-400 mb-3">Variants from this frame</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {variants.map(({ node, index }) => (
+          <div
+            key={node.id}
+            className={`rounded-lg overflow-hidden border-2 bg-gray-900 ${
+              node.preferred ? "border-amber-400" : index === currentIndex ? "border-indigo-500" : "border-gray-700"
+            }`}
+          >
+            {node.videoUrl ? (
+              <video src={node.videoUrl} muted loop playsInline controls className="w-full aspect-video bg-black" />
+            ) : (
+              <div className="w-full aspect-video flex items-center justify-center text-xs text-gray-400 bg-black">
+                {node.status === "failed" ? "Failed" : "Generating..."}
+              </div>
+            )}
+            <p className="text-xs text-gray-300 p-1.5 truncate" title={node.prompt}>{node.prompt}</p>
+            <div className="flex gap-2 px-1.5 pb-1.5 text-xs">
+              <button
+                onClick={() => onOpen(index)}
+                disabled={!node.videoUrl}
+                className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-600"
+              >
+                Open
+              </button>
+              {node.preferred ? (
+                <span className="ml-auto text-amber-400">★ Preferred</span>
+              ) : (
+                <button
+                  onClick={() => onPrefer(index)}
+                  disabled={!node.videoUrl}
+                  className="ml-auto text-gray-400 hover:text-amber-300 disabled:text-gray-600"
+                >
+                  Prefer
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+import SignIn from "@/app/components/SignIn";
+import Studio from "@/app/components/Studio";
+import { authEnabled, getSessionUser, signInOptions } from "@/lib/auth";
+import { getJob, isFinished } from "@/lib/jobs";
+import { getProject } from "@/lib/projects";
+
+export default async function ProjectPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser();
+  if (!user) return <SignIn {...await signInOptions()} />;
+
+  const project = await getProject((await params).id);
+  if (!project) notFound();
+
+  // A scripted run still filling the project in, if any
+  const run = project.runJobId ? getJob(project.runJobId) : null;
+
+  return (
+    <Studio
+      project={project}
+      user={authEnabled ? user : undefined}
+      runJobId={run && !isFinished(run) ? run.id : undefined}
+    />
+  );
+}
@@ -0,0 +1,134 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import type { NextRequest, NextResponse } from "next/server";
+import { HttpError } from "./errors";
+import { hasUsers, type User } from "./users";
+
+export type { User } from "./users";
+
+// How callers may prove who they are. "password" checks the local user store,
+// "token" checks the API tokens in AUTH_TOKENS. Either one issues a session
+// cookie for the page; API clients can also send a token as a Bearer header.
+// With no methods configured, auth is off and everyone shares one user.
+export type AuthMethod = "password" | "token";
+
+export const AUTH_METHODS = (process.env.AUTH_METHODS ?? "")
+  .split(",")
+  .map((method) => method.trim())
+  .filter((method): method is AuthMethod => method === "password" || method === "token");
+
+export const authEnabled = AUTH_METHODS.length > 0;
+
+// Anyone may register while the user store is empty; afterwards only with AUTH_ALLOW_SIGNUP.
+export const ALLOW_SIGNUP = process.env.AUTH_ALLOW_SIGNUP === "true";
+
+// How the sign-in form may sign someone in
+export async function signInOptions() {
+  return {
+    methods: AUTH_METHODS,
+    canRegister: AUTH_METHODS.includes("password") && (ALLOW_SIGNUP || !(await hasUsers())),
+  };
+}
+
+const ANONYMOUS: User = { id: "anonymous", name: "Anonymous" };
+
+export const SESSION_COOKIE = "vidgen_session";
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // seconds
+
+// Without a configured secret, sessions only last until the server restarts.
+const globalForAuth = globalThis as unknown as { sessionSecret?: string };
+const sessionSecret = () =>
+  process.env.SESSION_SECRET ?? (globalForAuth.sessionSecret ??= randomBytes(32).toString("hex"));
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// "name:token" pairs, compared by digest so lookups take constant time.
+const API_TOKENS = (process.env.AUTH_TOKENS ?? "")
+  .split(",")
+  .map((pair) => pair.trim().split(":"))
+  .filter(([name, token]) => name && token)
+  .map(([name, token]) => ({ user: { id: `token:${name}`, name }, digest: digest(token) }));
+
+export function authenticateToken(token: unknown): User | null {
+  if (!AUTH_METHODS.includes("token") || typeof token !== "string" || !token) return null;
+  const candidate = digest(token);
+  return API_TOKENS.find((entry) => timingSafeEqual(entry.digest, candidate))?.user ?? null;
+}
+
+const sign = (payload: string) => createHmac("sha256", sessionSecret()).update(payload).digest("base64url");
+
+// A session cookie value: the user and expiry, signed with the session secret.
+export function createSession(user: User): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...user, exp: Date.now() + SESSION_MAX_AGE * 1000 })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifySession(value: string | undefined): User | null {
+  const [payload, signature] = value?.split(".") ?? [];
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const { id, name, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  return typeof exp === "number" && exp > Date.now() ? { id, name } : null;
+}
+
+export function setSessionCookie(res: NextResponse, user: User) {
+  res.cookies.set(SESSION_COOKIE, createSession(user), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
+
+// Identify the caller from a Bearer token or the session cookie. Resolves
+// with the shared anonymous user when auth is off, and null when the caller
+// is unknown.
+export function getUser(req: NextRequest): User | null {
+  if (!authEnabled) return ANONYMOUS;
+
+  const bearer = /^Bearer (.+)$/.exec(req.headers.get("authorization") ?? "")?.[1];
+  if (bearer) return authenticateToken(bearer);
+  return verifySession(req.cookies.get(SESSION_COOKIE)?.value);
+}
+
+// The signed-in user for a server-rendered page, which only has cookies.
+export async function getSessionUser(): Promise<User | null> {
+  if (!authEnabled) return ANONYMOUS;
+  return verifySession((await cookies()).get(SESSION_COOKIE)?.value);
+}
+
+// Like getUser, but rejects unknown callers with a 401 HttpError.
+export function requireUser(req: NextRequest): User {
+  const user = getUser(req);
+  if (!user) throw new HttpError(401, "Sign in to use this server");
+  return user;
+}
+
+// Whether a reverse proxy in front of the server sets X-Forwarded-For and
+// X-Real-IP. Without one, callers could send whatever address they like.
+const TRUST_PROXY = process.env.TRUST_PROXY === "true";
+
+// The caller's address, for per-IP limits. Next.js doesn't hand route
+// handlers the connection's address, only the forwarding headers, which it
+// fills in from the connection when the caller didn't send them. Those are
+// only read when TRUST_PROXY says a proxy sets them; otherwise every caller
+// counts as one address.
+export function clientIp(req: NextRequest): string {
+  if (!TRUST_PROXY) return "direct";
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
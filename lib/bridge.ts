@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import { readFile, rm, writeFile } from "fs/promises";
+import { rootClipUrl } from "./clips";
+import { HttpError } from "./errors";
+import { runFfmpeg } from "./ffmpeg";
+import { readImageSource } from "./images";
+import type { JobUpdate } from "./jobs";
+import { mediaUrl, saveMedia } from "./media";
+import { dataPath } from "./storage";
+import type { Project } from "./types";
+
+const FPS = 24;
+
+// One end of a bridge: a root clip key or a node ID, resolved against a
+// saved project.
+export type BridgeEnd = {
+  clip: string;
+  videoUrl: string;
+  frameImage: string | null; // the frame a node was generated from; null for root clips
+  index: number; // node index, -1 for root clips
+};
+
+// Look up a clip by root key or node ID. Throws a 400 HttpError naming
+// `field` when it doesn't exist or has no finished video.
+export function resolveBridgeEnd(project: Project, clip: unknown, field: string): BridgeEnd {
+  if (typeof clip !== "string" || !clip) throw new HttpError(400, `${field} must be a clip ID`, field);
+
+  const rootUrl = project.videos ? rootClipUrl(project.videos, clip) : null;
+  if (rootUrl) return { clip, videoUrl: rootUrl, frameImage: null, index: -1 };
+
+  const index = project.nodes.findIndex((node) => node.id === clip);
+  if (index === -1) throw new HttpError(400, `Unknown clip ${clip}`, field);
+  const node = project.nodes[index];
+  if (!node.videoUrl) throw new HttpError(400, `"${node.prompt}" has no video yet`, field);
+  return { clip, videoUrl: node.videoUrl, frameImage: node.frameImage, index };
+}
+
+// The local stand-in for a keyframed transition: the first frame dissolves
+// into the last over the whole clip, at the requested ratio and duration.
+// Aborting `signal` stops ffmpeg.
+export async function crossfadeFrames(
+  firstFrame: string,
+  lastFrame: string,
+  ratio: string,
+  duration: number,
+  update: (patch: JobUpdate) => void,
+  signal: AbortSignal
+): Promise<string> {
+  const [width, height] = ratio.split(":").map(Number);
+  const id = randomUUID();
+  const first = await dataPath("tmp", `${id}-first`);
+  const last = await dataPath("tmp", `${id}-last`);
+  const output = await dataPath("tmp", `${id}.mp4`);
+
+  update({ status: "running", progress: 0.1 });
+  try {
+    await writeFile(first, await readImageSource(firstFrame));
+    await writeFile(last, await readImageSource(lastFrame));
+    const fit = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1,fps=${FPS}`;
+    await runFfmpeg([
+      "-loop", "1", "-t", String(duration), "-i", first,
+      "-loop", "1", "-t", String(duration), "-i", last,
+      "-filter_complex",
+      `[0:v]${fit}[a];[1:v]${fit}[b];[a][b]xfade=transition=dissolve:duration=${duration}:offset=0,format=yuv420p[out]`,
+      "-map", "[out]",
+      "-c:v", "libx264",
+      "-movflags", "+faststart",
+      output,
+    ], signal);
+
+    update({ status: "running", progress: 0.9 });
+    return mediaUrl(await saveMedia(await readFile(output)));
+  } finally {
+    await Promise.all([first, last, output].map((file) => rm(file, { force: true })));
+  }
+}
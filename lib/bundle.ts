@@ -0,0 +1,211 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { HttpError } from "./errors";
+import { contentTypeFor, getMediaFile, mediaIdFromUrl, mediaUrl, saveMedia } from "./media";
+import { parseProjectInput, type ProjectInput } from "./projects";
+import type { ExploreNode, GenerationSettings, Project, RootVideos } from "./types";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+// A project bundle is a zip holding manifest.json plus every file the project
+// refers to: clips under media/, uploaded photos under images/ and captured
+// frames under frames/. The manifest is the project with each video URL and
+// data URI replaced by the path of its file in the archive.
+export const BUNDLE_FORMAT = "recursive-vidgen-bundle";
+// Bumped whenever the manifest changes shape. Older versions the server can
+// still read stay between MIN_BUNDLE_VERSION and BUNDLE_VERSION.
+export const BUNDLE_VERSION = 1;
+const MIN_BUNDLE_VERSION = 1;
+
+const MANIFEST = "manifest.json";
+
+// Largest bundle accepted for import. Its files may not unpack to more than
+// this either; clips barely compress, so a genuine bundle stays well within it.
+// Bundles are built and read in memory, so importing or exporting one takes
+// about twice its size in memory while it runs.
+export const MAX_BUNDLE_BYTES = Number(process.env.MAX_BUNDLE_BYTES ?? 500 * 1024 * 1024);
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+};
+const IMAGE_TYPES_BY_EXTENSION = Object.fromEntries(Object.entries(IMAGE_EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    currentIndex: number;
+    settings?: GenerationSettings;
+    images: Record<string, string | null>;
+    videos: RootVideos | null;
+    nodes: ExploreNode[];
+  };
+};
+
+// Archive paths are namespaced by kind; anything else in a manifest is kept
+// as written.
+const isBundlePath = (value: string) => /^(media|images|frames)\/[^/]+$/.test(value);
+
+// Pack a saved project and the files it refers to into a bundle. Jobs don't
+// travel between servers, so nodes still generating are exported as failed.
+export async function createBundle(project: Project): Promise<Buffer> {
+  const files = new Map<string, Buffer>();
+
+  // A media store clip as a file in the archive. Other values, such as the
+  // empty URL of an unfinished node, pass through.
+  const packClip = async (url: string): Promise<string> => {
+    const mediaId = mediaIdFromUrl(url);
+    if (!mediaId) return url;
+    const media = await getMediaFile(mediaId);
+    if (!media) throw new HttpError(409, `${url} is missing from the media store`);
+    const name = `media/${mediaId}`;
+    if (!files.has(name)) files.set(name, await readFile(media.path));
+    return name;
+  };
+
+  // A data URI as a file in `folder`, named by its hash
+  const packImage = (value: string, folder: "images" | "frames"): string => {
+    const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(value);
+    if (!match) return value;
+    const data = Buffer.from(match[2], "base64");
+    const name = `${folder}/${createHash("sha256").update(data).digest("hex")}${IMAGE_EXTENSIONS[match[1]] ?? ".bin"}`;
+    files.set(name, data);
+    return name;
+  };
+
+  const { name, createdAt, updatedAt, currentIndex, settings, videos } = project;
+  const images = Object.fromEntries(
+    Object.entries(project.images).map(([slot, uri]) => [slot, uri && packImage(uri, "images")] as const)
+  );
+  const packedVideos: RootVideos | null = videos && {
+    setting: await packClip(videos.setting),
+    person: Object.fromEntries(
+      await Promise.all(Object.entries(videos.person).map(async ([angle, url]) => [angle, await packClip(url)]))
+    ),
+    ...(videos.composite && { composite: await packClip(videos.composite) }),
+  };
+  const nodes = await Promise.all(
+    project.nodes.map(async (node) => ({
+      ...node,
+      jobId: undefined,
+      frameImage: packImage(node.frameImage, "frames"),
+      videoUrl: await packClip(node.videoUrl),
+      ...(node.status === "pending" && { status: "failed" as const, error: "Still generating when the project was exported" }),
+    }))
+  );
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name,
+      createdAt,
+      updatedAt,
+      currentIndex,
+      ...(settings && { settings }),
+      images,
+      videos: packedVideos,
+      nodes,
+    },
+  };
+
+  const entries: ZipEntry[] = [
+    { name: MANIFEST, data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    // Clips are compressed video already
+    ...[...files].map(([name, data]) => ({ name, data, stored: name.startsWith("media/") })),
+  ];
+  return createZip(entries);
+}
+
+// Unpack a bundle into project input, storing its clips in the media store
+// and turning its images back into data URIs. Throws a 400 HttpError naming
+// the "bundle" field when the archive is damaged, from an unsupported
+// version or doesn't describe a valid project.
+export async function readBundle(archive: Buffer): Promise<Partial<ProjectInput>> {
+  const fail = (message: string) => new HttpError(400, message, "bundle");
+
+  let files: Map<string, Buffer>;
+  try {
+    files = readZip(archive, { maxEntryBytes: MAX_BUNDLE_BYTES, maxTotalBytes: MAX_BUNDLE_BYTES });
+  } catch (error: unknown) {
+    throw fail(`Bundle is corrupt: ${error instanceof Error ? error.message : "unreadable archive"}`);
+  }
+
+  const manifestData = files.get(MANIFEST);
+  if (!manifestData) throw fail(`Not a project bundle: ${MANIFEST} is missing`);
+  let manifest: Partial<BundleManifest>;
+  try {
+    manifest = JSON.parse(manifestData.toString("utf8"));
+  } catch {
+    throw fail(`${MANIFEST} is not valid JSON`);
+  }
+
+  if (typeof manifest !== "object" || manifest === null || manifest.format !== BUNDLE_FORMAT) {
+    throw fail("Not a project bundle: unknown manifest format");
+  }
+  const { version } = manifest;
+  if (!Number.isInteger(version)) throw fail("Bundle manifest has no version");
+  if (version! > BUNDLE_VERSION) {
+    throw fail(`Bundle version ${version} is newer than this server supports (${BUNDLE_VERSION}); update the server to import it`);
+  }
+  if (version! < MIN_BUNDLE_VERSION) {
+    throw fail(`Bundle version ${version} is no longer supported; export it again from a newer server`);
+  }
+
+  // The manifest is checked as a project before any of its files are stored
+  let input: Partial<ProjectInput>;
+  try {
+    input = parseProjectInput(manifest.project);
+  } catch (error: unknown) {
+    if (error instanceof HttpError) throw fail(`Bundle manifest is invalid: ${error.message}`);
+    throw error;
+  }
+
+  const unpack = async (value: string): Promise<string> => {
+    if (!isBundlePath(value)) return value;
+    const data = files.get(value);
+    if (!data) throw fail(`Bundle is missing ${value}`);
+
+    const extension = path.extname(value);
+    if (value.startsWith("media/")) {
+      if (contentTypeFor(value) === "application/octet-stream") throw fail(`${value} is not a supported media file`);
+      return mediaUrl(await saveMedia(data, extension));
+    }
+    const type = IMAGE_TYPES_BY_EXTENSION[extension];
+    if (!type) throw fail(`${value} is not a supported image`);
+    return `data:${type};base64,${data.toString("base64")}`;
+  };
+
+  if (input.images) {
+    input.images = Object.fromEntries(
+      await Promise.all(Object.entries(input.images).map(async ([slot, ref]) => [slot, ref && (await unpack(ref))]))
+    );
+  }
+  if (input.videos) {
+    const { setting, person, composite } = input.videos;
+    input.videos = {
+      setting: await unpack(setting),
+      person: Object.fromEntries(
+        await Promise.all(Object.entries(person).map(async ([angle, ref]) => [angle, await unpack(ref)]))
+      ),
+      ...(composite && { composite: await unpack(composite) }),
+    };
+  }
+  if (input.nodes) {
+    input.nodes = await Promise.all(
+      input.nodes.map(async (node) => ({
+        ...node,
+        frameImage: await unpack(node.frameImage),
+        videoUrl: await unpack(node.videoUrl),
+      }))
+    );
+  }
+  return input;
+}
@@ -0,0 +1,74 @@
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import type { JobUpdate } from "./jobs";
+import { getMediaFile, mediaIdFromUrl } from "./media";
+import { getProvider, runImageToVideo, type ImageToVideoRequest } from "./providers";
+import { dataPath } from "./storage";
+
+// Finished imageToVideo outputs, keyed by a hash of everything that went into
+// the request. Asking for the same clip again reuses the stored video instead
+// of paying for a new one. Entries are small JSON files under .data/cache
+// pointing into the media store.
+type CacheEntry = {
+  videoUrl: string;
+  createdAt: string;
+};
+
+const isValidKey = (key: string) => /^[a-f0-9]{64}$/.test(key);
+
+const imageHash = (dataUri: string) =>
+  createHash("sha256").update(Buffer.from(dataUri.replace(/^data:[^,]*,/, ""), "base64")).digest("hex");
+
+// Hash the normalised inputs of one clip. Requests without a seed let the
+// provider pick one, so any earlier output for the same inputs will do;
+// `variant` tells apart the alternatives generated from one explore request.
+export function generationKey(request: ImageToVideoRequest, variant = 0): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        provider: getProvider().name,
+        image: imageHash(request.promptImage),
+        ...(request.lastFrame && { lastFrame: imageHash(request.lastFrame) }),
+        promptText: request.promptText,
+        model: request.model,
+        ratio: request.ratio,
+        duration: request.duration,
+        seed: request.seed ?? null,
+        variant: request.seed === undefined ? variant : 0,
+      })
+    )
+    .digest("hex");
+}
+
+// The stored video for a key, or null when there is none or its media file
+// has gone missing.
+export async function findCachedVideo(key: string): Promise<string | null> {
+  if (!isValidKey(key)) return null;
+  try {
+    const entry: CacheEntry = JSON.parse(await readFile(await dataPath("cache", `${key}.json`), "utf8"));
+    const mediaId = mediaIdFromUrl(entry.videoUrl);
+    return mediaId && (await getMediaFile(mediaId)) ? entry.videoUrl : null;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function cacheVideo(key: string, videoUrl: string) {
+  const entry: CacheEntry = { videoUrl, createdAt: new Date().toISOString() };
+  await writeFile(await dataPath("cache", `${key}.json`), JSON.stringify(entry));
+}
+
+// runImageToVideo, remembering a successful output under `key`.
+export async function runCachedImageToVideo(
+  key: string,
+  request: ImageToVideoRequest,
+  update: (patch: JobUpdate) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const videoUrl = await runImageToVideo(request, update, signal);
+  if (videoUrl) {
+    await cacheVideo(key, videoUrl).catch((error: unknown) => console.error("Failed to cache video:", error));
+  }
+  return videoUrl;
+}
@@ -0,0 +1,14 @@
+import { PERSON_ANGLES, type PersonAngle, type RootVideos } from "./types";
+
+// Root clips are identified by key: "setting", "composite" or "person-<angle>".
+// Explore clips are identified by their node ID.
+export function rootClipUrl(videos: RootVideos, key: string): string | null {
+  if (key === "setting") return videos.setting;
+  if (key === "composite") return videos.composite ?? null;
+
+  const angle = key.replace(/^person-/, "") as PersonAngle;
+  if (key.startsWith("person-") && PERSON_ANGLES.includes(angle)) {
+    return videos.person[angle] ?? null;
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from "crypto";
+import { readFile, rm } from "fs/promises";
+import sharp from "sharp";
+import { runFfmpeg } from "./ffmpeg";
+import { readImageSource } from "./images";
+import type { JobUpdate } from "./jobs";
+import { mediaUrl, requireMediaFile, saveMedia } from "./media";
+import { dataPath } from "./storage";
+
+// The composite is a chroma key, not a matte: it only separates the person
+// from a plain, evenly lit backdrop such as a wall or a green screen, so the
+// front photo has to be taken against one. Photos on busy backgrounds get no
+// composite rather than a badly cut out one.
+
+// How close a pixel must be to the key colour to be made transparent, and how
+// softly the matte edge is blended (both 0..1, see ffmpeg's colorkey filter).
+const KEY_SIMILARITY = Number(process.env.COMPOSITE_KEY_SIMILARITY ?? 0.25);
+const KEY_BLEND = Number(process.env.COMPOSITE_KEY_BLEND ?? 0.1);
+// A fixed backdrop colour, which skips sampling and the plain backdrop check
+const KEY_COLOR = process.env.COMPOSITE_KEY_COLOR;
+
+// Height of the person layer relative to the setting, and the shared frame rate.
+const PERSON_SCALE = 0.75;
+const FPS = 24;
+
+// The backdrop colour from the average colours of the top-left and
+// top-right corners of a picture, where the subject rarely reaches, or null
+// when the two differ by more than the key would tolerate, as the backdrop
+// then isn't plain enough to key out.
+function backdropColor(left: number[], right: number[]): string | null {
+  // Distance in RGB space, scaled to 0..1 like colorkey's similarity
+  const distance = Math.hypot(...left.map((c, i) => c - right[i])) / (255 * Math.sqrt(3));
+  if (distance > KEY_SIMILARITY) return null;
+  return "0x" + left.map((c, i) => Math.round((c + right[i]) / 2).toString(16).padStart(2, "0")).join("");
+}
+
+// Whether a composite can be made from the front photo, a data URI: always
+// with a fixed key colour, otherwise only if its backdrop looks plain.
+export async function canComposite(frontPhoto: string): Promise<boolean> {
+  if (KEY_COLOR) return true;
+  const data = await readImageSource(frontPhoto);
+  const { width = 0, height = 0 } = await sharp(data).metadata();
+  const corner = (left: number) =>
+    sharp(data)
+      .extract({ left, top: 0, width: Math.max(1, Math.floor(width / 10)), height: Math.max(1, Math.floor(height / 10)) })
+      .removeAlpha()
+      .resize(1, 1)
+      .raw()
+      .toBuffer()
+      .then((pixel) => [...pixel.subarray(0, 3)]);
+  const [left, right] = await Promise.all([corner(0), corner(width - Math.max(1, Math.floor(width / 10)))]);
+  return backdropColor(left, right) !== null;
+}
+
+// Sample the person clip's backdrop colour from the corners of its first
+// frame. Throws when it isn't plain, which canComposite rules out for the
+// photo but the clip may still drift from.
+async function sampleKeyColor(personFile: string, signal: AbortSignal): Promise<string> {
+  const pixels = await runFfmpeg([
+    "-i", personFile,
+    "-frames:v", "1",
+    "-vf", "split[l][r];[l]crop=iw/10:ih/10:0:0,scale=1:1[tl];[r]crop=iw/10:ih/10:iw*9/10:0,scale=1:1[tr];[tl][tr]hstack",
+    "-f", "rawvideo",
+    "-pix_fmt", "rgb24",
+    "pipe:1",
+  ], signal);
+  if (pixels.length < 6) throw new Error("Could not sample the person clip background");
+  const color = backdropColor([...pixels.subarray(0, 3)], [...pixels.subarray(3, 6)]);
+  if (!color) {
+    throw new Error(
+      "The person clip's background isn't a plain colour, so the person can't be cut out of it. " +
+        "Retake the front photo against a plain wall or green screen, or set COMPOSITE_KEY_COLOR."
+    );
+  }
+  return color;
+}
+
+// Layer the animated person over the setting pan. The person's backdrop is
+// keyed out, the person is scaled and anchored bottom-centre, both clips are
+// resampled to a common frame rate from their first frame, and the result
+// runs as long as the shorter clip. Aborting `signal` stops ffmpeg.
+export async function compositeVideos(
+  settingUrl: string,
+  personUrl: string,
+  update: (patch: JobUpdate) => void,
+  signal: AbortSignal
+): Promise<string> {
+  const settingFile = await requireMediaFile(settingUrl);
+  const personFile = await requireMediaFile(personUrl);
+
+  update({ status: "running", progress: 0.1 });
+  const keyColor = KEY_COLOR ?? (await sampleKeyColor(personFile, signal));
+
+  update({ status: "running", progress: 0.3 });
+  const output = await dataPath("tmp", `${randomUUID()}.mp4`);
+  try {
+    await runFfmpeg([
+      "-i", settingFile,
+      "-i", personFile,
+      "-filter_complex",
+      `[0:v]setpts=PTS-STARTPTS,fps=${FPS}[bg0];` +
+        `[1:v]setpts=PTS-STARTPTS,fps=${FPS},format=rgba,colorkey=${keyColor}:${KEY_SIMILARITY}:${KEY_BLEND}[keyed];` +
+        `[keyed][bg0]scale2ref=w=oh*mdar:h=ih*${PERSON_SCALE}[fg][bg];` +
+        `[bg][fg]overlay=(W-w)/2:H-h:shortest=1,format=yuv420p[out]`,
+      "-map", "[out]",
+      "-c:v", "libx264",
+      "-movflags", "+faststart",
+      output,
+    ], signal);
+
+    update({ status: "running", progress: 0.9 });
+    return mediaUrl(await saveMedia(await readFile(output)));
+  } finally {
+    await rm(output, { force: true });
+  }
+}
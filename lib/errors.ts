@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+// An error that maps directly onto an HTTP response. `field` names the
+// request field at fault, so the page can show the error next to it.
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public field?: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// A 429 telling the caller how many seconds to wait before trying again.
+export class RateLimitError extends HttpError {
+  constructor(
+    message: string,
+    public retryAfter: number
+  ) {
+    super(429, message);
+    this.name = "RateLimitError";
+  }
+}
+
+// Turn a caught error into a JSON error response. Unexpected errors are
+// logged and reported as 500s.
+export function errorResponse(error: unknown, context: string) {
+  if (error instanceof HttpError) {
+    const body = error.field ? { error: error.message, field: error.field } : { error: error.message };
+    const headers = error instanceof RateLimitError ? { "Retry-After": String(error.retryAfter) } : undefined;
+    return NextResponse.json(body, { status: error.status, headers });
+  }
+  console.error(`${context}:`, error);
+  const message = error instanceof Error ? error.message : "Unexpected error";
+  return NextResponse.json({ error: message }, { status: 500 });
+}
@@ -0,0 +1,82 @@
+import { spawn } from "child_process";
+import { createLimiter } from "./limit";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH ?? "ffmpeg";
+// ffmpeg processes running at once, across every request and job. Kept on
+// globalThis so dev-mode hot reloads don't start a second pool.
+const FFMPEG_CONCURRENCY = Number(process.env.FFMPEG_CONCURRENCY ?? 2);
+const globalForFfmpeg = globalThis as unknown as { ffmpegLimit?: ReturnType<typeof createLimiter> };
+const ffmpegLimit = (globalForFfmpeg.ffmpegLimit ??= createLimiter(FFMPEG_CONCURRENCY));
+
+// Run ffmpeg with the given arguments and resolve with whatever it wrote to
+// stdout. Rejects with the tail of stderr when the process exits
+// unsuccessfully. Waits its turn when FFMPEG_CONCURRENCY processes are
+// already running. Aborting `signal` kills the process, or drops it from the
+// queue, and rejects with the signal's reason.
+export function runFfmpeg(args: string[], signal?: AbortSignal): Promise<Buffer> {
+  return ffmpegLimit(async () => {
+    signal?.throwIfAborted();
+    return spawnFfmpeg(args, signal);
+  });
+}
+
+function spawnFfmpeg(args: string[], signal?: AbortSignal): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(FFMPEG_PATH, ["-hide_banner", "-loglevel", "error", "-y", ...args], { signal });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+
+    proc.stdout.on("data", (chunk: Buffer) => {
+      stdout.push(chunk);
+    });
+    proc.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    proc.on("error", (error) => {
+      if (signal?.aborted) reject(signal.reason);
+      else reject(new Error(`Could not start ffmpeg (${FFMPEG_PATH}): ${error.message}`));
+    });
+    proc.on("close", (code) => {
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().slice(-500)}`));
+    });
+  });
+}
+
+const FFPROBE_PATH = process.env.FFPROBE_PATH ?? "ffprobe";
+
+export type VideoInfo = {
+  duration: number; // seconds
+  width: number;
+  height: number;
+};
+
+// Read the duration and frame size of a video file with ffprobe.
+export function probeVideo(file: string): Promise<VideoInfo> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(FFPROBE_PATH, [
+      "-v", "error",
+      "-select_streams", "v:0",
+      "-show_entries", "stream=width,height:format=duration",
+      "-of", "json",
+      file,
+    ]);
+    let stdout = "";
+
+    proc.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    proc.on("error", (error) => {
+      reject(new Error(`Could not start ffprobe (${FFPROBE_PATH}): ${error.message}`));
+    });
+    proc.on("close", (code) => {
+      if (code !== 0) return reject(new Error(`ffprobe exited with code ${code}`));
+      const info = JSON.parse(stdout);
+      resolve({
+        duration: Number(info.format?.duration),
+        width: info.streams?.[0]?.width,
+        height: info.streams?.[0]?.height,
+      });
+    });
+  });
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import { readFile, rm } from "fs/promises";
+import { rootClipUrl } from "./clips";
+import { HttpError } from "./errors";
+import { probeVideo, runFfmpeg } from "./ffmpeg";
+import type { JobUpdate } from "./jobs";
+import { mediaUrl, requireMediaFile, saveMedia } from "./media";
+import { dataPath } from "./storage";
+import type { Project } from "./types";
+
+export type FilmSegment = {
+  url: string;
+  end: number | null; // trim point in seconds, null = play to the end
+};
+
+// Longest crossfade allowed between two segments.
+export const MAX_CROSSFADE = 2;
+
+// Shortest segment worth keeping; a branch captured on the very first frame
+// contributes nothing from its parent.
+const MIN_SEGMENT = 0.05;
+const FPS = 24;
+
+// Turn a root-to-leaf chain of node IDs into film segments: the root clip up
+// to where the first node was captured, each node's clip up to where the
+// next node was captured, and the last node's clip in full.
+export function resolveFilmPath(project: Project, nodeIds: string[]): FilmSegment[] {
+  if (!project.videos) throw new HttpError(400, "Project has no generated videos");
+  if (nodeIds.length === 0) throw new HttpError(400, "Path must contain at least one node");
+
+  const indexById = new Map(project.nodes.map((node, i) => [node.id, i]));
+  const path = nodeIds.map((id) => {
+    const index = indexById.get(id);
+    if (index === undefined) throw new HttpError(400, `Unknown node ${id}`);
+    return { node: project.nodes[index], index };
+  });
+
+  const first = path[0].node;
+  if (first.parentIndex !== -1) {
+    throw new HttpError(400, "Path must start at a node that branched from the original videos");
+  }
+  const rootUrl = first.sourceClip ? rootClipUrl(project.videos, first.sourceClip) : null;
+  if (!rootUrl) throw new HttpError(400, `Cannot tell which original clip "${first.prompt}" branched from`);
+
+  const segments: FilmSegment[] = [{ url: rootUrl, end: first.captureTime ?? null }];
+  path.forEach(({ node }, i) => {
+    if (i > 0 && node.parentIndex !== path[i - 1].index) {
+      throw new HttpError(400, `"${node.prompt}" did not branch from the previous node in the path`);
+    }
+    if (!node.videoUrl) throw new HttpError(400, `"${node.prompt}" has no video yet`);
+    const next = path[i + 1]?.node;
+    segments.push({ url: node.videoUrl, end: next ? next.captureTime ?? null : null });
+  });
+  return segments;
+}
+
+// Render film segments into a single MP4 in the media store, optionally
+// crossfading between consecutive segments. Every segment is conformed to the
+// first clip's frame size and a common frame rate. Aborting `signal` stops
+// ffmpeg.
+export async function exportFilm(
+  segments: FilmSegment[],
+  crossfade: number,
+  update: (patch: JobUpdate) => void,
+  signal: AbortSignal
+): Promise<string> {
+  const clips = [];
+  for (const segment of segments) {
+    const file = await requireMediaFile(segment.url);
+    const info = await probeVideo(file);
+    const duration = Math.min(segment.end ?? info.duration, info.duration);
+    if (duration >= MIN_SEGMENT) clips.push({ file, duration, info });
+  }
+  if (clips.length === 0) throw new Error("Nothing to export");
+
+  update({ status: "running", progress: 0.1 });
+
+  // Frame size must be even for yuv420p
+  const width = clips[0].info.width & ~1;
+  const height = clips[0].info.height & ~1;
+  const fade = clips.length > 1
+    ? Math.min(crossfade, ...clips.map((clip) => clip.duration / 2))
+    : 0;
+
+  const filters = clips.map(
+    ({ duration }, i) =>
+      `[${i}:v]trim=end=${duration},setpts=PTS-STARTPTS,fps=${FPS},` +
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,format=yuv420p[v${i}]`
+  );
+
+  if (fade > 0) {
+    // Each crossfade starts `fade` seconds before the running total ends
+    let previous = "v0";
+    let elapsed = clips[0].duration;
+    for (let i = 1; i < clips.length; i++) {
+      const label = i === clips.length - 1 ? "out" : `x${i}`;
+      filters.push(`[${previous}][v${i}]xfade=transition=fade:duration=${fade}:offset=${elapsed - fade}[${label}]`);
+      previous = label;
+      elapsed += clips[i].duration - fade;
+    }
+  } else {
+    filters.push(`${clips.map((_, i) => `[v${i}]`).join("")}concat=n=${clips.length}:v=1:a=0[out]`);
+  }
+
+  const output = await dataPath("tmp", `${randomUUID()}.mp4`);
+  try {
+    await runFfmpeg([
+      ...clips.flatMap(({ file }) => ["-i", file]),
+      "-filter_complex", filters.join(";"),
+      "-map", "[out]",
+      "-c:v", "libx264",
+      "-movflags", "+faststart",
+      output,
+    ], signal);
+
+    update({ status: "running", progress: 0.9 });
+    return mediaUrl(await saveMedia(await readFile(output)));
+  } finally {
+    await rm(output, { force: true });
+  }
+}
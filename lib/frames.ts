@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import { access, readFile, rename, rm } from "fs/promises";
+import { HttpError } from "./errors";
+import { probeVideo, runFfmpeg } from "./ffmpeg";
+import { getMediaFile, mediaIdFromUrl } from "./media";
+import { dataPath } from "./storage";
+
+// How far before the end of a clip its last frame is looked for. Longer than
+// one frame at any common rate, so there is always one to find.
+const LAST_FRAME_WINDOW = 0.5;
+// Frame rate of the clips this app produces, for telling when a timestamp
+// falls on the final frame
+const FPS = 24;
+
+// Most thumbnails a filmstrip may have, and their height in pixels
+export const MAX_FILMSTRIP_FRAMES = 24;
+const FILMSTRIP_HEIGHT = 90;
+
+export type ExtractedFrame = {
+  image: string; // PNG data URI at the clip's full resolution
+  time: number; // seconds into the clip
+};
+
+// The media ID and file behind a stored clip URL. Throws a 400 HttpError
+// naming `field` when the URL isn't one.
+async function storedClip(videoUrl: unknown, field: string): Promise<{ id: string; path: string }> {
+  const mediaId = typeof videoUrl === "string" ? mediaIdFromUrl(videoUrl) : null;
+  const media = mediaId ? await getMediaFile(mediaId) : null;
+  if (!media) throw new HttpError(400, "Not a stored clip", field);
+  return { id: mediaId!, path: media.path };
+}
+
+const storedClipPath = async (videoUrl: unknown, field: string) => (await storedClip(videoUrl, field)).path;
+
+// Run ffmpeg with `args` writing a single PNG, and return it as a data URI.
+async function captureFrame(args: (output: string) => string[]): Promise<string> {
+  const output = await dataPath("tmp", `${randomUUID()}.png`);
+  try {
+    await runFfmpeg(args(output));
+    const data = await readFile(output);
+    return `data:image/png;base64,${data.toString("base64")}`;
+  } finally {
+    await rm(output, { force: true });
+  }
+}
+
+// Pull the final frame out of a clip in the media store with ffmpeg, losslessly
+// and at full resolution. Throws a 400 HttpError naming `field` when the URL
+// isn't a stored clip.
+export async function extractLastFrame(videoUrl: unknown, field: string): Promise<ExtractedFrame> {
+  const file = await storedClipPath(videoUrl, field);
+  const { duration } = await probeVideo(file);
+  // Seek close to the end and keep overwriting the output with each frame, so
+  // what remains is the last one
+  const image = await captureFrame((output) => ["-sseof", `-${LAST_FRAME_WINDOW}`, "-i", file, "-update", "1", output]);
+  return { image, time: duration };
+}
+
+// The opening frame of a stored clip, like extractLastFrame.
+export async function extractFirstFrame(videoUrl: unknown, field: string): Promise<ExtractedFrame> {
+  const file = await storedClipPath(videoUrl, field);
+  const image = await captureFrame((output) => ["-i", file, "-frames:v", "1", output]);
+  return { image, time: 0 };
+}
+
+// The frame showing at `time` seconds into a stored clip, at full resolution.
+// Seeking happens on the decoded stream, so the frame is exact rather than
+// the nearest keyframe. Throws a 400 HttpError naming `field` for times
+// outside the clip.
+export async function extractFrameAt(videoUrl: unknown, time: number, field: string): Promise<ExtractedFrame> {
+  const file = await storedClipPath(videoUrl, field);
+  const { duration } = await probeVideo(file);
+  if (time > duration) throw new HttpError(400, `time must be within the clip's ${duration.toFixed(2)} seconds`, "time");
+  // Nothing follows a seek into the last frame, so that one is read from the end
+  if (time > duration - 1 / FPS) return { ...(await extractLastFrame(videoUrl, field)), time };
+
+  const image = await captureFrame((output) => ["-ss", time.toFixed(3), "-i", file, "-frames:v", "1", output]);
+  return { image, time };
+}
+
+// A strip of `count` evenly spaced thumbnails across a stored clip, as one
+// JPEG. Strips are kept on disk, keyed by the clip's content hash, since a
+// clip never changes.
+export async function renderFilmstrip(videoUrl: unknown, count: number, field: string): Promise<Buffer> {
+  const clip = await storedClip(videoUrl, field);
+  const output = await dataPath("filmstrips", `${clip.id.replace(/\.\w+$/, "")}-${count}.jpg`);
+  if (await access(output).then(() => true, () => false)) return readFile(output);
+
+  const { duration } = await probeVideo(clip.path);
+  const temp = await dataPath("tmp", `${randomUUID()}.jpg`);
+  try {
+    await runFfmpeg([
+      "-i", clip.path,
+      "-vf", `fps=${count}/${duration},scale=-2:${FILMSTRIP_HEIGHT},tile=${count}x1`,
+      "-frames:v", "1",
+      "-q:v", "4",
+      temp,
+    ]);
+    const data = await readFile(temp);
+    await rename(temp, output);
+    return data;
+  } finally {
+    await rm(temp, { force: true });
+  }
+}
@@ -0,0 +1,298 @@
+import { randomInt } from "crypto";
+import type { User } from "./auth";
+import { findCachedVideo, generationKey, runCachedImageToVideo } from "./cache";
+import { canComposite, compositeVideos } from "./composite";
+import { HttpError } from "./errors";
+import { extractLastFrame } from "./frames";
+import { parseRegion, parseRegionMode, prepareImage } from "./images";
+import { startJob, waitForJob, type JobRunner } from "./jobs";
+import { getProject } from "./projects";
+import type { ImageToVideoRequest } from "./providers";
+import { composeExplorePrompt, parsePromptControls } from "./prompts";
+import { enforceGenerationLimits, enforceRenderLimits } from "./ratelimit";
+import { clipSettings, MAX_SEED, MODELS, parseSettings, personPrompt } from "./settings";
+import { PERSON_ANGLES, type ClipSettings, type FrameRegion, type GenerationSettings, type PersonAngle, type PromptControls, type RegionMode } from "./types";
+import { checkBudget, estimateCredits, trackUsage } from "./usage";
+
+// Starting generation jobs, shared by the generate and explore routes and by
+// scripted runs. Requests arrive as parsed JSON and every field is checked
+// here; problems throw an HttpError naming the field.
+
+// Most alternatives one explore request may ask for.
+const MAX_VARIANTS = 4;
+
+export type GenerateRequest = {
+  personImages?: Partial<Record<PersonAngle, string>>; // data URIs
+  backgroundImage?: string;
+  settings?: unknown;
+  projectId?: string | null;
+  force?: boolean; // generate even when an identical clip is cached
+};
+
+export type RootGeneration = {
+  settingJobId: string;
+  personJobIds: Partial<Record<PersonAngle, string>>;
+  compositeJobId: string | null; // null when the front photo's backdrop can't be keyed out
+  cachedJobIds: string[];
+  settings: GenerationSettings;
+  credits: number;
+};
+
+// Start the root clips: the setting pan, one animated clip per person photo
+// and, once the setting and front clips exist, the composite of the two. The
+// composite is left out when the front photo has no plain backdrop.
+export async function startRootGeneration(user: User, ip: string, body: GenerateRequest): Promise<RootGeneration> {
+  const { personImages, backgroundImage, projectId = null } = body;
+
+  if (!personImages?.front) throw new HttpError(400, "Front image is required", "personImages.front");
+  if (!backgroundImage) throw new HttpError(400, "Background image is required", "backgroundImage");
+  const settings = parseSettings(body.settings);
+  const { model, ratio, duration, seed, templates } = settings;
+
+  // Usage is attributed to the project, which must exist already
+  if (projectId !== null && (typeof projectId !== "string" || !(await getProject(projectId)))) {
+    throw new HttpError(404, "Project not found", "projectId");
+  }
+
+  // Validate and normalise every photo before any generation starts
+  const background = await prepareImage(backgroundImage, "backgroundImage", ratio);
+  const photos: Partial<Record<PersonAngle, string>> = {};
+  for (const angle of PERSON_ANGLES) {
+    if (personImages[angle]) {
+      photos[angle] = await prepareImage(personImages[angle], `personImages.${angle}`, ratio);
+    }
+  }
+
+  // Every clip: the setting pan, then one animated clip per person photo.
+  // Clips generated before from identical inputs are reused unless `force`.
+  const clips: { kind: "setting" | "person"; angle?: PersonAngle; request: ImageToVideoRequest }[] = [
+    { kind: "setting", request: { model, promptImage: background, promptText: templates.setting, ratio, duration, seed } },
+    ...PERSON_ANGLES.filter((angle) => photos[angle]).map((angle) => ({
+      kind: "person" as const,
+      angle,
+      request: { model, promptImage: photos[angle]!, promptText: personPrompt(templates, angle), ratio, duration, seed },
+    })),
+  ];
+  const cached = await Promise.all(
+    clips.map(async (clip) => {
+      const key = generationKey(clip.request);
+      return { key, videoUrl: body.force === true ? null : await findCachedVideo(key) };
+    })
+  );
+
+  const uncachedCount = cached.filter((hit) => !hit.videoUrl).length;
+  const credits = uncachedCount * estimateCredits(model, duration);
+  await checkBudget(projectId, credits);
+  const composite = await canComposite(photos.front!);
+  // One job per clip plus the composite
+  enforceGenerationLimits(user, ip, clips.length + (composite ? 1 : 0));
+
+  // Webhooks report which project and root clip each job fills in
+  const projectContext = projectId !== null ? { projectId } : {};
+
+  // Kick off all video generation tasks in the background and hand back
+  // job IDs straight away; clients poll /api/jobs/[id] for the results.
+  const jobs = clips.map(({ kind, angle, request }, i) => {
+    const { key, videoUrl } = cached[i];
+    const run: JobRunner = videoUrl
+      ? async () => videoUrl
+      : (update, signal) =>
+          trackUsage(
+            { projectId, kind, model, duration },
+            () => runCachedImageToVideo(key, request, update, signal),
+            signal
+          );
+    return startJob(kind, run, { ...projectContext, rootClip: angle ? `person-${angle}` : kind }, user.id);
+  });
+  const settingJob = jobs[0];
+  const personJobIds: Partial<Record<PersonAngle, string>> = Object.fromEntries(
+    clips.slice(1).map((clip, i) => [clip.angle!, jobs[i + 1].id])
+  );
+  const cachedJobIds = jobs.filter((_, i) => cached[i].videoUrl).map((job) => job.id);
+
+  // Once the setting and front clips exist, layer the person over the setting
+  const frontJobId = personJobIds.front!;
+  const compositeJob = composite
+    ? startJob("composite", async (update, signal) => {
+        const [settingUrl, personUrl] = await Promise.all([
+          waitForJob(settingJob.id),
+          waitForJob(frontJobId),
+        ]);
+        if (!settingUrl || !personUrl) throw new Error("Missing clips to composite");
+        return compositeVideos(settingUrl, personUrl, update, signal);
+      }, { ...projectContext, rootClip: "composite" }, user.id)
+    : null;
+
+  return {
+    settingJobId: settingJob.id,
+    personJobIds,
+    compositeJobId: compositeJob?.id ?? null,
+    cachedJobIds,
+    settings,
+    credits,
+  };
+}
+
+export type ExploreRequest = {
+  image?: string; // data URI of the frame to explore from
+  continueFrom?: string; // or a stored clip whose last frame to use
+  prompt?: string;
+  prompts?: string[];
+  variants?: number; // times to run `prompt`, with different seeds
+  sourceClip?: string;
+  captureTime?: number;
+  nodeIds?: string[]; // one per variant
+  projectId?: string | null;
+  settings?: unknown;
+  controls?: unknown;
+  region?: unknown;
+  regionMode?: unknown;
+  force?: boolean;
+};
+
+export type ExploreVariant = {
+  jobId: string;
+  prompt: string;
+  promptText: string;
+  settings: ClipSettings;
+  cached: boolean;
+};
+
+export type ExploreGeneration = {
+  variants: ExploreVariant[];
+  controls: PromptControls;
+  region?: FrameRegion;
+  regionMode?: RegionMode;
+  frameImage?: string; // the frame a continuation was generated from
+  sourceClip?: string;
+  captureTime?: number;
+  credits: number;
+};
+
+// Start one explore job per variant, from a frame or the end of a clip.
+export async function startExplore(user: User, ip: string, body: ExploreRequest): Promise<ExploreGeneration> {
+  const { image, continueFrom, prompt, prompts, variants = 1, sourceClip, nodeIds, projectId = null } = body;
+  let { captureTime } = body;
+
+  if (prompts !== undefined && (prompt !== undefined || variants !== 1)) {
+    throw new HttpError(400, "Send either prompts, or prompt with variants, not both", "prompts");
+  }
+  const requested = prompts !== undefined ? (Array.isArray(prompts) ? prompts.length : NaN) : variants;
+  if (!Number.isInteger(requested) || requested > MAX_VARIANTS || (requested < 1 && prompts === undefined)) {
+    throw new HttpError(400, `Between 1 and ${MAX_VARIANTS} variants can be generated at once`, "variants");
+  }
+
+  // Either several prompts, or one prompt run `variants` times with different seeds
+  const promptList: unknown[] = prompts ?? (prompt ? Array(variants).fill(prompt) : []);
+
+  // The frame is either sent by the page, or, to continue a clip, taken
+  // from the end of a stored one
+  if (image !== undefined && continueFrom !== undefined) {
+    throw new HttpError(400, "Send either image or continueFrom, not both");
+  }
+  if ((!image && !continueFrom) || promptList.length === 0) {
+    throw new HttpError(400, "Image and prompt are required");
+  }
+  if (continueFrom !== undefined && body.region !== undefined) {
+    throw new HttpError(400, "A region can't be used when continuing a clip", "region");
+  }
+  if (!promptList.every((p) => typeof p === "string" && p.trim())) {
+    throw new HttpError(400, "Prompts must be non-empty strings");
+  }
+
+  // Where the frame was captured, so the new node can point back at it
+  if (sourceClip !== undefined && (typeof sourceClip !== "string" || !sourceClip)) {
+    throw new HttpError(400, "sourceClip must be a clip ID", "sourceClip");
+  }
+  if (
+    captureTime !== undefined &&
+    (typeof captureTime !== "number" || !Number.isFinite(captureTime) || captureTime < 0)
+  ) {
+    throw new HttpError(400, "captureTime must be a non-negative number of seconds", "captureTime");
+  }
+
+  // IDs the page will give the new nodes, passed on to webhooks
+  if (
+    nodeIds !== undefined &&
+    (!Array.isArray(nodeIds) || nodeIds.length !== promptList.length || !nodeIds.every((id) => typeof id === "string" && id))
+  ) {
+    throw new HttpError(400, "nodeIds must hold one node ID per variant", "nodeIds");
+  }
+
+  const settings = parseSettings(body.settings);
+  const controls = parsePromptControls(body.controls);
+  // An optional region of the frame to zoom into, by cropping or by prompt
+  const region = body.region === undefined ? undefined : parseRegion(body.region, "region");
+  const regionMode = parseRegionMode(body.regionMode, "regionMode");
+
+  // Usage is attributed to the project the new nodes will belong to
+  if (projectId !== null && (typeof projectId !== "string" || !(await getProject(projectId)))) {
+    throw new HttpError(404, "Project not found", "projectId");
+  }
+
+  // Checked before the frame is prepared, as continuing a clip runs ffmpeg
+  // to take its last frame
+  if (continueFrom !== undefined) enforceRenderLimits(user, ip, 0);
+  enforceGenerationLimits(user, ip, promptList.length);
+
+  let source = image;
+  if (continueFrom !== undefined) {
+    const frame = await extractLastFrame(continueFrom, "continueFrom");
+    source = frame.image;
+    captureTime = frame.time;
+  }
+  const promptImage = await prepareImage(source, "image", settings.ratio, regionMode === "crop" ? region : undefined);
+  const hint = regionMode === "hint" ? region : undefined;
+
+  // Consecutive seeds keep variants of one prompt distinct. They start from
+  // the requested seed if there is one; models without seed support vary on
+  // their own.
+  const baseSeed = settings.seed ?? randomInt(MAX_SEED);
+  const userPrompts = (promptList as string[]).map((userPrompt) => userPrompt.trim());
+  const clips = await Promise.all(
+    userPrompts.map(async (userPrompt, i) => {
+      const seed = MODELS[settings.model].supportsSeed ? (baseSeed + i) % MAX_SEED : undefined;
+      const promptText = composeExplorePrompt(settings.templates, userPrompt, controls, hint);
+      // With a requested seed, each variant is cached by the seed it is
+      // generated with. Without one, re-exploring reuses earlier variants,
+      // and repeats of a prompt are told apart by count.
+      const keySeed = settings.seed !== undefined ? seed : undefined;
+      const key = generationKey(
+        { ...clipSettings({ ...settings, seed: keySeed }), promptImage, promptText },
+        userPrompts.slice(0, i).filter((earlier) => earlier === userPrompt).length
+      );
+      const videoUrl = body.force === true ? null : await findCachedVideo(key);
+      // A clip cached without a seed keeps the one the provider picked, which isn't known here
+      const clip = clipSettings({ ...settings, seed: videoUrl ? keySeed : seed });
+      return { userPrompt, promptText, clip, key, videoUrl };
+    })
+  );
+
+  const credits = clips.filter((clip) => !clip.videoUrl).length * estimateCredits(settings.model, settings.duration);
+  await checkBudget(projectId, credits);
+
+  const started = clips.map(({ userPrompt, promptText, clip, key, videoUrl }, i): ExploreVariant => {
+    const run: JobRunner = videoUrl
+      ? async () => videoUrl
+      : (update, signal) =>
+          trackUsage(
+            { projectId, kind: "explore", model: clip.model, duration: clip.duration },
+            () => runCachedImageToVideo(key, { ...clip, promptImage, promptText }, update, signal),
+            signal
+          );
+    const context = { sourceClip, captureTime, ...(projectId !== null && { projectId }), nodeId: nodeIds?.[i] };
+    const job = startJob("explore", run, context, user.id);
+    return { jobId: job.id, prompt: userPrompt, promptText, settings: clip, cached: videoUrl !== null };
+  });
+
+  return {
+    variants: started,
+    controls,
+    ...(region && { region, regionMode }),
+    // A continuation's frame came from the server, so the page needs it for the node
+    ...(continueFrom !== undefined && { frameImage: promptImage }),
+    sourceClip,
+    captureTime,
+    credits,
+  };
+}
@@ -0,0 +1,129 @@
+import sharp from "sharp";
+import { HttpError } from "./errors";
+import { IMAGE_TYPES, type FrameRegion, type RegionMode } from "./types";
+
+// Load the bytes behind an image reference: either a base64 data URI, as
+// sent by the page, or an HTTP(S) URL.
+export async function readImageSource(source: string): Promise<Buffer> {
+  const match = /^data:[^;,]*;base64,([\s\S]*)$/.exec(source);
+  if (match) return Buffer.from(match[1], "base64");
+
+  const res = await fetch(source);
+  if (!res.ok) throw new Error(`Failed to fetch image (${res.status})`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+// Largest upload accepted, before preprocessing, and the pixel bounds of a
+// usable photo.
+export const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_BYTES ?? 10 * 1024 * 1024);
+const MIN_DIMENSION = 64;
+const MAX_DIMENSION = 8000;
+const JPEG_QUALITY = 88;
+// Smallest region that can be zoomed into, as a fraction of each side
+const MIN_REGION = 0.05;
+
+// Accepted types and the signature their first bytes must carry
+const SIGNATURES: Record<(typeof IMAGE_TYPES)[number], (data: Buffer) => boolean> = {
+  "image/jpeg": (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  "image/png": (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/webp": (data) => data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP",
+};
+
+// Validate a region of a frame. Coordinates are rounded so equal selections
+// compare equal. Throws a 400 HttpError naming `field`.
+export function parseRegion(input: unknown, field: string): FrameRegion {
+  const { x, y, width, height } = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const values = [x, y, width, height];
+  if (!values.every((n) => typeof n === "number" && Number.isFinite(n))) {
+    throw new HttpError(400, "region needs numeric x, y, width and height", field);
+  }
+  const [rx, ry, rw, rh] = (values as number[]).map((n) => Math.round(n * 10000) / 10000);
+  if (rx < 0 || ry < 0 || rw < MIN_REGION || rh < MIN_REGION || rx + rw > 1 || ry + rh > 1) {
+    throw new HttpError(
+      400,
+      `region must lie within the frame and cover at least ${MIN_REGION * 100}% of each side`,
+      field
+    );
+  }
+  return { x: rx, y: ry, width: rw, height: rh };
+}
+
+export function parseRegionMode(input: unknown, field: string): RegionMode {
+  if (input === undefined || input === "crop" || input === "hint") return input ?? "crop";
+  throw new HttpError(400, "regionMode must be crop or hint", field);
+}
+
+// The region grown to the target aspect ratio around its centre, shrunk if
+// that no longer fits, and moved back inside the image. In pixels.
+function cropBox(imageWidth: number, imageHeight: number, region: FrameRegion, targetRatio: number) {
+  let width = region.width * imageWidth;
+  let height = region.height * imageHeight;
+  if (width / height < targetRatio) width = height * targetRatio;
+  else height = width / targetRatio;
+  const scale = Math.min(1, imageWidth / width, imageHeight / height);
+  width = Math.round(width * scale);
+  height = Math.round(height * scale);
+
+  const centreX = (region.x + region.width / 2) * imageWidth;
+  const centreY = (region.y + region.height / 2) * imageHeight;
+  const clamp = (value: number, max: number) => Math.round(Math.min(Math.max(value, 0), max));
+  return {
+    left: clamp(centreX - width / 2, imageWidth - width),
+    top: clamp(centreY - height / 2, imageHeight - height),
+    width,
+    height,
+  };
+}
+
+// Validate an uploaded or captured image and normalise it for generation:
+// the declared type must match the file's signature, size and dimensions must
+// be within limits, EXIF orientation is applied, and the image is cropped to
+// the target ratio (keeping the most salient region) and re-encoded as JPEG.
+// With a `region`, that part of the image is cropped out and upscaled instead.
+// Returns a data URI; throws a 400 or 413 HttpError naming `field`.
+export async function prepareImage(
+  source: unknown,
+  field: string,
+  ratio: string,
+  region?: FrameRegion
+): Promise<string> {
+  const match = typeof source === "string" ? /^data:([^;,]*);base64,([\s\S]*)$/.exec(source) : null;
+  if (!match) throw new HttpError(400, "Image must be a base64 data URI", field);
+
+  const type = match[1].toLowerCase().replace("image/jpg", "image/jpeg");
+  if (!(IMAGE_TYPES as readonly string[]).includes(type)) {
+    throw new HttpError(400, `Unsupported image type ${type || "(none)"}. Use JPEG, PNG or WebP`, field);
+  }
+  const data = Buffer.from(match[2], "base64");
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new HttpError(413, `Image is larger than ${Math.round(MAX_IMAGE_BYTES / 1024 / 1024)} MB`, field);
+  }
+  if (!SIGNATURES[type as keyof typeof SIGNATURES](data)) {
+    throw new HttpError(400, "Image content does not match its file type", field);
+  }
+
+  const image = sharp(data, { failOn: "error" });
+  const { width, height, autoOrient } = await image.metadata().catch(() => {
+    throw new HttpError(400, "Image could not be decoded", field);
+  });
+  if (!width || !height) throw new HttpError(400, "Image could not be decoded", field);
+  if (Math.min(width, height) < MIN_DIMENSION || Math.max(width, height) > MAX_DIMENSION) {
+    throw new HttpError(
+      400,
+      `Image is ${width}×${height}; sides must be between ${MIN_DIMENSION} and ${MAX_DIMENSION} pixels`,
+      field
+    );
+  }
+
+  const [targetWidth, targetHeight] = ratio.split(":").map(Number);
+  image.rotate();
+  if (region) image.extract(cropBox(autoOrient.width, autoOrient.height, region, targetWidth / targetHeight));
+  const output = await image
+    .resize(targetWidth, targetHeight, { fit: "cover", position: "attention" })
+    .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+    .toBuffer()
+    .catch(() => {
+      throw new HttpError(400, "Image could not be decoded", field);
+    });
+  return `data:image/jpeg;base64,${output.toString("base64")}`;
+}
@@ -0,0 +1,205 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { HttpError } from "./errors";
+import { notifyJobFinished } from "./webhooks";
+
+export type JobKind = "setting" | "person" | "composite" | "explore" | "export" | "bridge" | "run";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+// Where a job's output belongs in the exploration tree.
+export type JobContext = {
+  sourceClip?: string; // clip the input frame was captured from
+  captureTime?: number; // seconds into that clip
+  projectId?: string;
+  nodeId?: string; // exploration node the output becomes
+  rootClip?: string; // root clip key the output becomes
+};
+
+export type Job = {
+  id: string;
+  kind: JobKind;
+  context: JobContext;
+  status: JobStatus;
+  progress: number; // 0..1, only meaningful while running
+  videoUrl: string | null;
+  error: string | null;
+  retriedAs: string | null; // job that re-ran this one after it failed or was cancelled
+  owner: string | null; // ID of the user who started it
+  createdAt: number;
+  startedAt: number | null; // first reported running, for progress estimates
+  updatedAt: number;
+};
+
+export type JobUpdate = Partial<Pick<Job, "status" | "progress">>;
+
+// A runner does the actual work for a job, reporting progress through
+// `update`, and resolves with the output video URL. `signal` aborts when the
+// job is cancelled; runners that hold external resources should release them.
+export type JobRunner = (update: (patch: JobUpdate) => void, signal: AbortSignal) => Promise<string | null>;
+
+// Finished jobs are kept around long enough for clients to pick up the result.
+const FINISHED_JOB_TTL = 24 * 60 * 60 * 1000;
+
+// Jobs live in memory for the lifetime of the server process. The map is kept
+// on globalThis so dev-mode hot reloads don't drop in-flight jobs.
+const globalForJobs = globalThis as unknown as {
+  jobs?: Map<string, Job>;
+  jobResults?: Map<string, Promise<string | null>>;
+  jobControls?: Map<string, JobControl>;
+  jobEvents?: EventEmitter;
+};
+const jobs = (globalForJobs.jobs ??= new Map<string, Job>());
+// Settles alongside each job, for server-side steps that depend on other jobs.
+const jobResults = (globalForJobs.jobResults ??= new Map<string, Promise<string | null>>());
+
+// What it takes to cancel a job or run it again.
+type JobControl = { run: JobRunner; controller: AbortController };
+const jobControls = (globalForJobs.jobControls ??= new Map<string, JobControl>());
+
+// Emits every job change under the job's ID
+const jobEvents = (globalForJobs.jobEvents ??= new EventEmitter().setMaxListeners(0));
+
+export const isFinished = (job: Job) => job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL;
+  for (const [id, job] of jobs) {
+    if (isFinished(job) && job.updatedAt < cutoff) {
+      jobs.delete(id);
+      jobResults.delete(id);
+      jobControls.delete(id);
+    }
+  }
+}
+
+function patchJob(id: string, patch: Partial<Job>) {
+  const job = jobs.get(id);
+  if (!job) return;
+  const now = Date.now();
+  const updated = { ...job, ...patch, updatedAt: now };
+  if (updated.status === "running" && updated.startedAt === null) updated.startedAt = now;
+  jobs.set(id, updated);
+  jobEvents.emit(id, updated);
+  if (isFinished(updated) && !isFinished(job)) notifyJobFinished(updated);
+}
+
+// Register a job and start running it in the background. Returns immediately
+// so route handlers can respond with the job ID instead of holding the
+// request open until the video is ready.
+export function startJob(kind: JobKind, run: JobRunner, context: JobContext = {}, owner: string | null = null): Job {
+  pruneFinishedJobs();
+
+  const now = Date.now();
+  const job: Job = {
+    id: randomUUID(),
+    kind,
+    context,
+    status: "queued",
+    progress: 0,
+    videoUrl: null,
+    error: null,
+    retriedAs: null,
+    owner,
+    createdAt: now,
+    startedAt: null,
+    updatedAt: now,
+  };
+  jobs.set(job.id, job);
+
+  // Once cancelled, late progress and results from the runner are ignored
+  const controller = new AbortController();
+  const { signal } = controller;
+  jobControls.set(job.id, { run, controller });
+  const result = run(
+    (patch) => {
+      if (!signal.aborted) patchJob(job.id, patch);
+    },
+    signal
+  ).then((videoUrl) => {
+    signal.throwIfAborted();
+    return videoUrl;
+  });
+  jobResults.set(job.id, result);
+
+  result
+    .then((videoUrl) => {
+      patchJob(job.id, { status: "succeeded", progress: 1, videoUrl });
+    })
+    .catch((error: unknown) => {
+      if (signal.aborted) return;
+      console.error(`Job ${job.id} (${kind}) failed:`, error);
+      patchJob(job.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Video generation failed",
+      });
+    });
+
+  return job;
+}
+
+// Stop a queued or running job. Its runner is signalled to abort, e.g. to
+// cancel the provider task, and jobs waiting on it fail.
+export function cancelJob(id: string): Job | null {
+  const job = jobs.get(id);
+  if (!job) return null;
+  if (isFinished(job)) throw new HttpError(409, `Job has already ${job.status}`);
+
+  jobControls.get(id)?.controller.abort(new Error("Cancelled"));
+  patchJob(id, { status: "cancelled", error: "Cancelled" });
+  return getJob(id);
+}
+
+// Run a failed or cancelled job again as a new job with the same inputs.
+// Scripted runs are refused with a 409.
+export function retryJob(id: string): Job | null {
+  const job = jobs.get(id);
+  const control = jobControls.get(id);
+  if (!job || !control) return null;
+  if (job.status !== "failed" && job.status !== "cancelled") {
+    throw new HttpError(409, `Only failed or cancelled jobs can be retried, this one is ${job.status}`);
+  }
+  if (job.retriedAs) throw new HttpError(409, `Job was already retried as ${job.retriedAs}`);
+  // A run would add the steps it finished to its project a second time
+  if (job.kind === "run") throw new HttpError(409, "Scripted runs can't be retried; start the plan again instead");
+
+  const retry = startJob(job.kind, control.run, job.context, job.owner);
+  patchJob(id, { retriedAs: retry.id });
+  return retry;
+}
+
+// Wait for another job to finish. Resolves with its video URL and rejects
+// if it failed. A job that has been retried is followed to its latest retry.
+export async function waitForJob(id: string): Promise<string | null> {
+  for (let job = jobs.get(id); job?.retriedAs; job = jobs.get(id)) id = job.retriedAs;
+  const result = jobResults.get(id);
+  if (!result) throw new Error(`Job ${id} not found`);
+  return result;
+}
+
+// How many of a user's jobs are still queued or running
+export function countActiveJobs(owner: string): number {
+  let count = 0;
+  for (const job of jobs.values()) {
+    if (job.owner === owner && !isFinished(job)) count++;
+  }
+  return count;
+}
+
+export function getJob(id: string): Job | null {
+  return jobs.get(id) ?? null;
+}
+
+// A job as seen by one user: other users' jobs are treated as missing.
+export function getJobFor(id: string, owner: string): Job | null {
+  const job = jobs.get(id);
+  return job && (job.owner === null || job.owner === owner) ? job : null;
+}
+
+// Call `listener` with the job after every change until unsubscribed.
+export function subscribeToJob(id: string, listener: (job: Job) => void): () => void {
+  jobEvents.on(id, listener);
+  return () => {
+    jobEvents.off(id, listener);
+  };
+}
@@ -0,0 +1,42 @@
+// Run async tasks with at most `concurrency` of them in flight at once.
+// Extra tasks wait in FIFO order.
+export function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+// Allow at most `limit` hits per key in any `windowMs`. `hit` records a hit
+// and resolves with 0, or, when the key is over its limit, records nothing and
+// resolves with how many milliseconds until the oldest hit leaves the window.
+export function createRateLimiter(limit: number, windowMs: number) {
+  const hits = new Map<string, number[]>();
+
+  return function hit(key: string): number {
+    const now = Date.now();
+    const recent = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return recent[0] + windowMs - now;
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    return 0;
+  };
+}
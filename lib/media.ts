@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+import { access, stat, writeFile } from "fs/promises";
+import path from "path";
+import { dataPath } from "./storage";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+};
+
+// Media is content-addressed: the ID is the SHA-256 of the bytes plus an
+// extension, so storing the same file twice is a no-op.
+const isValidMediaId = (id: string) => /^[a-f0-9]{64}\.[a-z0-9]+$/.test(id);
+
+export const mediaUrl = (id: string) => `/api/media/${id}`;
+
+// Reverse of mediaUrl. Returns null for URLs outside the media store.
+export const mediaIdFromUrl = (url: string) => /^\/api\/media\/([^/?#]+)$/.exec(url)?.[1] ?? null;
+
+export const contentTypeFor = (id: string) =>
+  CONTENT_TYPES[path.extname(id)] ?? "application/octet-stream";
+
+// Store bytes in the local media store and return the media ID.
+export async function saveMedia(data: Buffer, extension = ".mp4"): Promise<string> {
+  const id = createHash("sha256").update(data).digest("hex") + extension;
+  const file = await dataPath("media", id);
+
+  const exists = await access(file).then(() => true, () => false);
+  if (!exists) await writeFile(file, data);
+  return id;
+}
+
+// Locate a stored media file. Returns null for unknown or malformed IDs.
+export async function getMediaFile(id: string): Promise<{ path: string; size: number } | null> {
+  if (!isValidMediaId(id)) return null;
+  const file = await dataPath("media", id);
+  try {
+    const { size } = await stat(file);
+    return { path: file, size };
+  } catch {
+    return null;
+  }
+}
+
+// Resolve a media store URL to its file on disk, or throw if it isn't one.
+export async function requireMediaFile(url: string): Promise<string> {
+  const id = mediaIdFromUrl(url);
+  const file = id ? await getMediaFile(id) : null;
+  if (!file) throw new Error(`Not a stored media file: ${url}`);
+  return file.path;
+}
@@ -0,0 +1,282 @@
+import { randomUUID } from "crypto";
+import { setTimeout as sleep } from "timers/promises";
+import type { User } from "./auth";
+import { HttpError, RateLimitError } from "./errors";
+import { extractFrameAt } from "./frames";
+import { startExplore, type ExploreGeneration, type RootGeneration } from "./generation";
+import { cancelJob, getJob, isFinished, waitForJob, type JobRunner } from "./jobs";
+import { createLimiter } from "./limit";
+import { saveProjectNode, updateProject } from "./projects";
+import { parsePromptControls } from "./prompts";
+import { parseSettings } from "./settings";
+import { PERSON_ANGLES, type ExploreNode, type GenerationSettings, type PersonAngle, type PromptControls, type RootVideos } from "./types";
+
+// A plan describes an exploration tree up front so it can be generated
+// without the page: the root photos, then steps that each capture a frame
+// from an earlier clip and explore from it with a prompt.
+
+// Most steps one plan may hold
+export const MAX_PLAN_STEPS = 50;
+// Steps of one run generating at once. The provider's own queue still
+// applies on top of this.
+const RUN_CONCURRENCY = Number(process.env.RUN_CONCURRENCY ?? 2);
+
+const ROOT_CLIPS = ["setting", "composite", ...PERSON_ANGLES.map((angle) => `person-${angle}`)];
+
+export type PlanStep = {
+  id: string; // referenced by later steps' `from`
+  from: string; // root clip key or an earlier step's ID
+  at: number | "last"; // seconds into the source clip, or its last frame
+  prompt: string;
+  controls?: PromptControls;
+};
+
+export type Plan = {
+  name: string;
+  images: Partial<Record<PersonAngle | "background", string>>; // data URIs, by upload slot
+  settings: GenerationSettings;
+  steps: PlanStep[];
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+// Check a plan from a client. Throws a 400 HttpError naming the field at
+// fault, e.g. "steps[2].from".
+export function parsePlan(body: unknown): Plan {
+  if (typeof body !== "object" || body === null) throw new HttpError(400, "Plan must be an object");
+  const { name, images, settings, steps } = body as Record<string, unknown>;
+
+  if (name !== undefined && (!isString(name) || !name.trim())) {
+    throw new HttpError(400, "name must be a non-empty string", "name");
+  }
+
+  if (typeof images !== "object" || images === null) throw new HttpError(400, "images are required", "images");
+  const slots = ["background", ...PERSON_ANGLES] as const;
+  for (const [slot, image] of Object.entries(images)) {
+    if (!(slots as readonly string[]).includes(slot)) {
+      throw new HttpError(400, `Unknown image slot ${slot}. Use: ${slots.join(", ")}`, `images.${slot}`);
+    }
+    // The CLI reads files and URLs into data URIs before sending a plan
+    if (!isString(image) || !image.startsWith("data:")) {
+      throw new HttpError(400, `images.${slot} must be a base64 data URI`, `images.${slot}`);
+    }
+  }
+  const photos = images as Plan["images"];
+  if (!photos.front) throw new HttpError(400, "Front image is required", "images.front");
+  if (!photos.background) throw new HttpError(400, "Background image is required", "images.background");
+
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_PLAN_STEPS) {
+    throw new HttpError(400, `A plan needs between 1 and ${MAX_PLAN_STEPS} steps`, "steps");
+  }
+  const ids = new Set<string>();
+  const parsedSteps = steps.map((step: unknown, i): PlanStep => {
+    const field = `steps[${i}]`;
+    if (typeof step !== "object" || step === null) throw new HttpError(400, `${field} must be an object`, field);
+    const { id, from, at, prompt, controls } = step as Record<string, unknown>;
+
+    if (!isString(id) || !id) throw new HttpError(400, `${field}.id must be a non-empty string`, `${field}.id`);
+    if (ids.has(id) || ROOT_CLIPS.includes(id)) throw new HttpError(400, `${field}.id ${id} is already taken`, `${field}.id`);
+    // Steps can only start from clips that exist by the time they run
+    if (!isString(from) || (!ROOT_CLIPS.includes(from) && !ids.has(from))) {
+      throw new HttpError(400, `${field}.from must be a root clip (${ROOT_CLIPS.join(", ")}) or an earlier step's id`, `${field}.from`);
+    }
+    if (at !== "last" && (typeof at !== "number" || !Number.isFinite(at) || at < 0)) {
+      throw new HttpError(400, `${field}.at must be a non-negative number of seconds or "last"`, `${field}.at`);
+    }
+    if (!isString(prompt) || !prompt.trim()) throw new HttpError(400, `${field}.prompt must be a non-empty string`, `${field}.prompt`);
+
+    let parsedControls: PromptControls;
+    try {
+      parsedControls = parsePromptControls(controls);
+    } catch (error: unknown) {
+      if (error instanceof HttpError) throw new HttpError(400, `${field}.${error.message}`, `${field}.${error.field}`);
+      throw error;
+    }
+
+    ids.add(id);
+    return {
+      id,
+      from,
+      at,
+      prompt: prompt.trim(),
+      ...(Object.keys(parsedControls).length > 0 && { controls: parsedControls }),
+    };
+  });
+
+  return {
+    name: isString(name) ? name.trim() : "Scripted exploration",
+    images: photos,
+    settings: parseSettings(settings),
+    steps: parsedSteps,
+  };
+}
+
+// Rate limited generation requests wait as told and try again.
+async function retryWhenLimited<T>(start: () => Promise<T>, signal: AbortSignal): Promise<T> {
+  for (;;) {
+    try {
+      return await start();
+    } catch (error: unknown) {
+      if (!(error instanceof RateLimitError)) throw error;
+      await sleep(error.retryAfter * 1000, undefined, { signal });
+    }
+  }
+}
+
+// The job runner for a plan, filling in the project `projectId` as its
+// clips finish. `root` holds the root clip jobs the run started with; each
+// step is then explored from a captured frame as `user`, from the address
+// `ip`, so rate limits, budgets and webhooks apply as they do to the page.
+// Nodes are saved one at a time. The run fails once every step has finished
+// if any of them didn't succeed, leaving the finished ones in place.
+export function planRunner(plan: Plan, projectId: string, root: RootGeneration, user: User, ip: string): JobRunner {
+  return async (update, signal) => {
+    update({ status: "running", progress: 0 });
+    // Root generation counts as one step
+    const total = plan.steps.length + 1;
+    let finished = 0;
+    const advance = () => update({ progress: ++finished / total });
+
+    // Jobs started for this run are cancelled along with it
+    const active = new Set<string>();
+    const follow = async (jobId: string) => {
+      active.add(jobId);
+      try {
+        return await waitForJob(jobId);
+      } finally {
+        active.delete(jobId);
+      }
+    };
+    signal.addEventListener(
+      "abort",
+      () => {
+        for (const id of active) {
+          const job = getJob(id);
+          if (job && !isFinished(job)) cancelJob(id);
+        }
+      },
+      { once: true }
+    );
+
+    // Root clips: the setting, one per person photo and the composite
+    const rootJobs: [string, string][] = [
+      ["setting", root.settingJobId],
+      ...Object.entries(root.personJobIds).map(([angle, id]) => [`person-${angle}`, id!] as [string, string]),
+      ...(root.compositeJobId ? [["composite", root.compositeJobId] as [string, string]] : []),
+    ];
+    const rootResults = await Promise.allSettled(rootJobs.map(([, id]) => follow(id)));
+    signal.throwIfAborted();
+
+    const clips: Record<string, string> = {};
+    const rootErrors: string[] = [];
+    rootJobs.forEach(([key], i) => {
+      const result = rootResults[i];
+      if (result.status === "fulfilled" && result.value) clips[key] = result.value;
+      else if (result.status === "rejected") rootErrors.push(`${key}: ${result.reason?.message ?? "failed"}`);
+    });
+    if (!clips.setting || !clips["person-front"]) throw new Error(`Root clips failed (${rootErrors.join("; ")})`);
+
+    const videos: RootVideos = {
+      setting: clips.setting,
+      person: Object.fromEntries(
+        PERSON_ANGLES.filter((angle) => clips[`person-${angle}`]).map((angle) => [angle, clips[`person-${angle}`]])
+      ),
+      ...(clips.composite && { composite: clips.composite }),
+    };
+    await updateProject(projectId, { videos });
+    advance();
+
+    // A budget running out stops the steps that haven't started yet
+    let halted: HttpError | null = null;
+
+    // Nodes are added once their parent is ready, so every node comes after
+    // its parent
+    const runStep = async (step: PlanStep, parent: ExploreNode | null): Promise<ExploreNode> => {
+      if (halted) throw halted;
+      signal.throwIfAborted();
+      const videoUrl = parent ? parent.videoUrl : clips[step.from];
+      if (!videoUrl) throw new Error(`${step.from} has no clip to explore from`);
+
+      const frame =
+        step.at === "last"
+          ? { continueFrom: videoUrl }
+          : await extractFrameAt(videoUrl, step.at, "at").then(({ image, time }) => ({ image, captureTime: time }));
+      const nodeId = randomUUID();
+      const sourceClip = parent ? parent.id : step.from;
+      let explored: ExploreGeneration;
+      try {
+        explored = await retryWhenLimited(
+          () =>
+            startExplore(user, ip, {
+              ...frame,
+              prompt: step.prompt,
+              controls: step.controls,
+              sourceClip,
+              nodeIds: [nodeId],
+              settings: plan.settings,
+              projectId,
+            }),
+          signal
+        );
+      } catch (error: unknown) {
+        if (error instanceof HttpError && error.status === 402) halted ??= error;
+        throw error;
+      }
+
+      const [variant] = explored.variants;
+      const node: ExploreNode = {
+        id: nodeId,
+        prompt: variant.prompt,
+        frameImage: "image" in frame ? frame.image : explored.frameImage!,
+        videoUrl: "",
+        status: "pending",
+        jobId: variant.jobId,
+        parentIndex: -1, // set when saved
+        sourceClip,
+        captureTime: explored.captureTime,
+        settings: variant.settings,
+        cached: variant.cached || undefined,
+        controls: Object.keys(explored.controls).length > 0 ? explored.controls : undefined,
+        continued: step.at === "last" || undefined,
+      };
+      const parentId = parent?.id ?? null;
+      await saveProjectNode(projectId, node, parentId);
+
+      try {
+        const ready: ExploreNode = { ...node, videoUrl: (await follow(variant.jobId)) ?? "", status: "ready", jobId: undefined };
+        await saveProjectNode(projectId, ready, parentId);
+        return ready;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Generation failed";
+        await saveProjectNode(projectId, { ...node, status: "failed", error: message }, parentId).catch(() => {});
+        throw error;
+      }
+    };
+
+    // Each step waits for its parent, then for a free slot. Steps whose
+    // parent failed are skipped.
+    const limit = createLimiter(RUN_CONCURRENCY);
+    const outcomes = new Map<string, Promise<ExploreNode>>();
+    for (const step of plan.steps) {
+      const parent = outcomes.get(step.from);
+      const outcome = (async () => {
+        const parentNode = parent ? await parent.catch(() => null) : null;
+        if (parent && !parentNode) throw new Error(`Skipped because step ${step.from} failed`);
+        return limit(() => runStep(step, parentNode));
+      })();
+      outcome.then(advance, advance);
+      outcomes.set(step.id, outcome);
+    }
+    const results = await Promise.allSettled(outcomes.values());
+    signal.throwIfAborted();
+
+    const failures = plan.steps
+      .map((step, i) => ({ step, result: results[i] }))
+      .filter(({ result }) => result.status === "rejected")
+      .map(({ step, result }) => `${step.id}: ${(result as PromiseRejectedResult).reason?.message ?? "failed"}`);
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} of ${plan.steps.length} steps did not finish (${failures.join("; ")})`);
+    }
+    return null;
+  };
+}
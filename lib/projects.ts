@@ -0,0 +1,261 @@
+import { randomUUID } from "crypto";
+import { readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { HttpError } from "./errors";
+import { parseSettings } from "./settings";
+import { dataDir, dataPath } from "./storage";
+import { PERSON_ANGLES, type ClipSettings, type ExploreNode, type FrameRegion, type PersonAngle, type Project, type ProjectSummary, type PromptControls, type RootVideos } from "./types";
+
+// The parts of a project a client may write. Only the server sets runJobId.
+export type ProjectInput = Pick<Project, "name" | "images" | "videos" | "nodes" | "currentIndex" | "settings" | "runJobId">;
+
+// Projects are stored as one JSON file each under .data/projects. They
+// belong to the workspace rather than to a user: anyone signed in may open,
+// change or delete any of them.
+const projectPath = (id: string) => dataPath("projects", `${id}.json`);
+
+const isValidId = (id: string) => /^[a-f0-9-]{36}$/.test(id);
+
+// Updates to one project run one at a time, so a scripted run saving a node
+// and the page saving its tree never read and write over each other. Kept on
+// globalThis so dev-mode hot reloads don't drop queued writes.
+const globalForProjects = globalThis as unknown as { projectWrites?: Map<string, Promise<unknown>> };
+const projectWrites = (globalForProjects.projectWrites ??= new Map<string, Promise<unknown>>());
+
+function queueWrite<T>(id: string, write: () => Promise<T>): Promise<T> {
+  const result = (projectWrites.get(id) ?? Promise.resolve()).catch(() => {}).then(write);
+  projectWrites.set(id, result);
+  result
+    .catch(() => {})
+    .finally(() => {
+      if (projectWrites.get(id) === result) projectWrites.delete(id);
+    });
+  return result;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+function isRootVideos(value: unknown): value is RootVideos {
+  const videos = value as RootVideos;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    isString(videos.setting) &&
+    (videos.composite === undefined || isString(videos.composite)) &&
+    typeof videos.person === "object" &&
+    videos.person !== null &&
+    isString(videos.person.front) &&
+    Object.entries(videos.person).every(
+      ([angle, url]) => PERSON_ANGLES.includes(angle as PersonAngle) && isString(url)
+    )
+  );
+}
+
+// Only the shape is checked: a node keeps the settings it was generated with
+// even if the model table has changed since.
+function isClipSettings(value: unknown): value is ClipSettings {
+  const settings = value as ClipSettings;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    isString(settings.model) &&
+    isString(settings.ratio) &&
+    typeof settings.duration === "number" &&
+    (settings.seed === undefined || Number.isInteger(settings.seed))
+  );
+}
+
+function isPromptControls(value: unknown): value is PromptControls {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.values(value).every(isString)
+  );
+}
+
+function isFrameRegion(value: unknown): value is FrameRegion {
+  const region = value as FrameRegion;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    [region.x, region.y, region.width, region.height].every((n) => typeof n === "number" && n >= 0 && n <= 1)
+  );
+}
+
+function isExploreNode(value: unknown): value is ExploreNode {
+  const node = value as ExploreNode;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    isString(node.id) &&
+    isString(node.prompt) &&
+    isString(node.frameImage) &&
+    isString(node.videoUrl) &&
+    Number.isInteger(node.parentIndex) &&
+    (node.status === undefined || ["pending", "ready", "failed"].includes(node.status)) &&
+    (node.jobId === undefined || isString(node.jobId)) &&
+    (node.error === undefined || isString(node.error)) &&
+    (node.variantGroup === undefined || isString(node.variantGroup)) &&
+    (node.preferred === undefined || typeof node.preferred === "boolean") &&
+    (node.sourceClip === undefined || isString(node.sourceClip)) &&
+    (node.captureTime === undefined || (typeof node.captureTime === "number" && node.captureTime >= 0)) &&
+    (node.settings === undefined || isClipSettings(node.settings)) &&
+    (node.cached === undefined || typeof node.cached === "boolean") &&
+    (node.controls === undefined || isPromptControls(node.controls)) &&
+    (node.region === undefined || isFrameRegion(node.region)) &&
+    (node.regionMode === undefined || node.regionMode === "crop" || node.regionMode === "hint") &&
+    (node.continued === undefined || typeof node.continued === "boolean") &&
+    (node.bridge === undefined ||
+      (typeof node.bridge === "object" && node.bridge !== null && isString(node.bridge.from) && isString(node.bridge.to)))
+  );
+}
+
+// Check a partial project body from a client. Throws a 400 HttpError on the
+// first invalid field.
+export function parseProjectInput(body: unknown): Partial<ProjectInput> {
+  if (typeof body !== "object" || body === null) {
+    throw new HttpError(400, "Project body must be an object");
+  }
+  const { name, images, videos, nodes, currentIndex, settings } = body as Record<string, unknown>;
+  const input: Partial<ProjectInput> = {};
+
+  if (name !== undefined) {
+    if (!isString(name) || !name.trim()) throw new HttpError(400, "Project name must be a non-empty string");
+    input.name = name.trim();
+  }
+  if (images !== undefined) {
+    if (
+      typeof images !== "object" ||
+      images === null ||
+      !Object.values(images).every((uri) => uri === null || isString(uri))
+    ) {
+      throw new HttpError(400, "Project images must map slot keys to data URIs");
+    }
+    input.images = images as ProjectInput["images"];
+  }
+  if (videos !== undefined) {
+    if (videos !== null && !isRootVideos(videos)) throw new HttpError(400, "Invalid project videos");
+    input.videos = videos;
+  }
+  if (nodes !== undefined) {
+    if (!Array.isArray(nodes) || !nodes.every(isExploreNode)) {
+      throw new HttpError(400, "Invalid project nodes");
+    }
+    // Every node must branch from the root or from an earlier node
+    if (nodes.some((node, i) => node.parentIndex < -1 || node.parentIndex >= i)) {
+      throw new HttpError(400, "Project nodes contain an invalid parentIndex");
+    }
+    input.nodes = nodes;
+  }
+  if (currentIndex !== undefined) {
+    if (!Number.isInteger(currentIndex)) throw new HttpError(400, "currentIndex must be an integer");
+    input.currentIndex = currentIndex as number;
+  }
+  if (settings !== undefined) {
+    input.settings = parseSettings(settings);
+  }
+
+  const nodeCount = input.nodes?.length;
+  if (input.currentIndex !== undefined && nodeCount !== undefined && input.currentIndex >= nodeCount) {
+    throw new HttpError(400, "currentIndex is out of range");
+  }
+
+  return input;
+}
+
+async function writeProject(project: Project) {
+  // Write to a temporary file and rename so readers never see a partial file
+  const target = await projectPath(project.id);
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(project));
+  await rename(temp, target);
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  if (!isValidId(id)) return null;
+  try {
+    const project: Project = JSON.parse(await readFile(await projectPath(id), "utf8"));
+    // Projects saved before multi-angle generation had a single person clip
+    const person: unknown = project.videos?.person;
+    if (project.videos && typeof person === "string") {
+      project.videos.person = { front: person };
+    }
+    return project;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const files = (await readdir(await dataDir("projects"))).filter((file) => file.endsWith(".json"));
+
+  const projects = await Promise.all(
+    files.map((file) => getProject(file.replace(/\.json$/, "")))
+  );
+
+  return projects
+    .filter((project): project is Project => project !== null)
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createProject(input: Partial<ProjectInput>): Promise<Project> {
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: randomUUID(),
+    name: input.name ?? "Untitled exploration",
+    createdAt: now,
+    updatedAt: now,
+    images: input.images ?? {},
+    videos: input.videos ?? null,
+    nodes: input.nodes ?? [],
+    currentIndex: input.currentIndex ?? -1,
+    ...(input.settings ? { settings: input.settings } : {}),
+    ...(input.runJobId ? { runJobId: input.runJobId } : {}),
+  };
+  await writeProject(project);
+  return project;
+}
+
+export function updateProject(id: string, input: Partial<ProjectInput>): Promise<Project | null> {
+  return queueWrite(id, async () => {
+    const existing = await getProject(id);
+    if (!existing) return null;
+
+    const project: Project = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    if (project.currentIndex >= project.nodes.length) {
+      throw new HttpError(400, "currentIndex is out of range");
+    }
+    await writeProject(project);
+    return project;
+  });
+}
+
+// Add one node to a saved project, or replace the node with its ID, leaving
+// the others as they are. Its parentIndex is found from `parentId` (null for
+// the root) in the project as saved now. Throws a 409 HttpError when the
+// parent has been deleted.
+export function saveProjectNode(id: string, node: ExploreNode, parentId: string | null): Promise<Project | null> {
+  return queueWrite(id, async () => {
+    const existing = await getProject(id);
+    if (!existing) return null;
+
+    const parentIndex = parentId === null ? -1 : existing.nodes.findIndex((other) => other.id === parentId);
+    if (parentIndex === -1 && parentId !== null) throw new HttpError(409, "The node this one branched from was deleted");
+    const nodes = [...existing.nodes];
+    const index = nodes.findIndex((other) => other.id === node.id);
+    if (index === -1) nodes.push({ ...node, parentIndex });
+    else nodes[index] = { ...node, parentIndex };
+
+    const project: Project = { ...existing, nodes, updatedAt: new Date().toISOString() };
+    await writeProject(project);
+    return project;
+  });
+}
+
+export async function deleteProject(id: string): Promise<boolean> {
+  const project = await getProject(id);
+  if (!project) return false;
+  await rm(await projectPath(id), { force: true });
+  return true;
+}
@@ -0,0 +1,124 @@
+import { HttpError } from "./errors";
+import { explorePrompt } from "./settings";
+import type { FrameRegion, PromptControls, PromptOption, PromptTemplates } from "./types";
+
+// Presets for the structured explore prompt. Each phrase is a small template
+// the server composes into the final prompt; {speed} in a camera move becomes
+// the chosen speed's phrase.
+export const CAMERA_MOVES: Record<string, PromptOption> = {
+  static: { label: "Locked off", phrase: "The camera holds perfectly still" },
+  dolly_in: { label: "Dolly in", phrase: "The camera {speed} dollies in" },
+  dolly_out: { label: "Dolly out", phrase: "The camera {speed} dollies out" },
+  pan_left: { label: "Pan left", phrase: "The camera {speed} pans left" },
+  pan_right: { label: "Pan right", phrase: "The camera {speed} pans right" },
+  tilt_up: { label: "Tilt up", phrase: "The camera {speed} tilts up" },
+  tilt_down: { label: "Tilt down", phrase: "The camera {speed} tilts down" },
+  orbit: { label: "Orbit", phrase: "The camera {speed} orbits around the subject" },
+  crane_up: { label: "Crane up", phrase: "The camera {speed} cranes up and over the scene" },
+  crane_down: { label: "Crane down", phrase: "The camera {speed} cranes down into the scene" },
+  handheld: { label: "Handheld", phrase: "A handheld camera {speed} follows the action" },
+};
+
+export const CAMERA_SPEEDS: Record<string, PromptOption> = {
+  slow: { label: "Slow", phrase: "slowly" },
+  steady: { label: "Steady", phrase: "steadily" },
+  fast: { label: "Fast", phrase: "rapidly" },
+};
+
+export const LIGHTING_PRESETS: Record<string, PromptOption> = {
+  golden_hour: { label: "Golden hour", phrase: "Warm golden hour sunlight with long shadows" },
+  blue_hour: { label: "Blue hour", phrase: "Cool blue hour twilight" },
+  overcast: { label: "Overcast", phrase: "Soft, diffuse overcast light" },
+  night: { label: "Night", phrase: "Moody night lighting with pools of artificial light" },
+  neon: { label: "Neon", phrase: "Vivid neon lighting reflecting off every surface" },
+  studio: { label: "Studio", phrase: "Bright, even studio lighting" },
+  candlelight: { label: "Candlelight", phrase: "Flickering warm candlelight" },
+};
+
+export const STYLE_PRESETS: Record<string, PromptOption> = {
+  cinematic: { label: "Cinematic", phrase: "Cinematic film look, shallow depth of field, high quality" },
+  documentary: { label: "Documentary", phrase: "Naturalistic documentary footage" },
+  noir: { label: "Film noir", phrase: "Black and white film noir with deep contrast" },
+  vintage: { label: "Vintage film", phrase: "Vintage 16mm film with visible grain" },
+  anime: { label: "Anime", phrase: "Hand-drawn anime style" },
+  dreamlike: { label: "Dreamlike", phrase: "Soft, dreamlike haze with gentle glow" },
+};
+
+const MAX_FOCUS_LENGTH = 100;
+
+const CHOICES: { key: Exclude<keyof PromptControls, "focus">; options: Record<string, PromptOption> }[] = [
+  { key: "camera", options: CAMERA_MOVES },
+  { key: "speed", options: CAMERA_SPEEDS },
+  { key: "lighting", options: LIGHTING_PRESETS },
+  { key: "style", options: STYLE_PRESETS },
+];
+
+// Validate the structured prompt fields of an explore request. Unset fields
+// are left out. Throws a 400 HttpError naming the field at fault.
+export function parsePromptControls(input: unknown): PromptControls {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object") throw new HttpError(400, "controls must be an object", "controls");
+  const fields = input as Record<string, unknown>;
+
+  const controls: PromptControls = {};
+  for (const { key, options } of CHOICES) {
+    const value = fields[key];
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value !== "string" || !Object.hasOwn(options, value)) {
+      throw new HttpError(400, `controls.${key} must be one of: ${Object.keys(options).join(", ")}`, `controls.${key}`);
+    }
+    controls[key] = value;
+  }
+
+  const { focus } = fields;
+  if (focus !== undefined && focus !== null && focus !== "") {
+    if (typeof focus !== "string" || focus.trim().length > MAX_FOCUS_LENGTH) {
+      throw new HttpError(400, `controls.focus must be at most ${MAX_FOCUS_LENGTH} characters`, "controls.focus");
+    }
+    if (focus.trim()) controls.focus = focus.trim();
+  }
+  return controls;
+}
+
+// Camera, focus, lighting and style as sentences, e.g. "The camera slowly
+// dollies in, focusing on the lighthouse. Cool blue hour twilight." Speed
+// only applies to a camera move.
+export function describeControls({ camera, speed, focus, lighting, style }: PromptControls): string {
+  const cameraPhrase = camera
+    ? CAMERA_MOVES[camera].phrase.replaceAll("{speed}", speed ? CAMERA_SPEEDS[speed].phrase : "").replace(/\s+/g, " ")
+    : "";
+  const sentences = [
+    cameraPhrase && focus ? `${cameraPhrase}, focusing on ${focus}` : cameraPhrase || (focus && `Focus on ${focus}`),
+    lighting && LIGHTING_PRESETS[lighting].phrase,
+    style && STYLE_PRESETS[style].phrase,
+  ];
+  return sentences.filter(Boolean).map((sentence) => `${sentence}.`).join(" ");
+}
+
+// Where a region sits in the frame, as a push-in instruction, e.g. "The
+// camera pushes in on the upper left of the frame until it fills the shot."
+export function describeRegion({ x, y, width, height }: FrameRegion): string {
+  const third = (centre: number) => (centre < 1 / 3 ? 0 : centre > 2 / 3 ? 2 : 1);
+  const column = third(x + width / 2);
+  const row = third(y + height / 2);
+  const position =
+    row === 1
+      ? ["left side", "centre", "right side"][column]
+      : column === 1
+        ? ["top", "", "bottom"][row]
+        : `${["upper", "", "lower"][row]} ${["left", "", "right"][column]}`;
+  return `The camera pushes in on the ${position} of the frame until it fills the shot.`;
+}
+
+// The user's prompt followed by the structured direction, filled into the
+// explore template in place of {prompt}. A `hint` region leads the direction.
+export function composeExplorePrompt(
+  templates: PromptTemplates,
+  prompt: string,
+  controls: PromptControls,
+  hint?: FrameRegion
+): string {
+  const direction = [hint && describeRegion(hint), describeControls(controls)].filter(Boolean).join(" ");
+  if (!direction) return explorePrompt(templates, prompt);
+  return explorePrompt(templates, `${prompt.replace(/[\s.]+$/, "")}. ${direction}`);
+}
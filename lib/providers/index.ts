@@ -0,0 +1,114 @@
+import { setTimeout as sleep } from "timers/promises";
+import type { JobUpdate } from "../jobs";
+import { createLimiter } from "../limit";
+import { mediaUrl, saveMedia } from "../media";
+import { createMockProvider } from "./mock";
+import { createRunwayProvider } from "./runway";
+import type { ImageToVideoRequest, VideoProvider } from "./types";
+
+export type { ImageToVideoRequest, VideoProvider } from "./types";
+
+const TASK_TIMEOUT = 10 * 60 * 1000;
+
+// Transient provider errors are retried this many times, waiting
+// RETRY_BASE_DELAY, then twice that, and so on between attempts.
+const PROVIDER_MAX_RETRIES = Number(process.env.PROVIDER_MAX_RETRIES ?? 3);
+const RETRY_BASE_DELAY = 2000;
+
+// Maximum number of provider tasks in flight at once; the rest stay queued.
+const PROVIDER_CONCURRENCY = Number(process.env.PROVIDER_CONCURRENCY ?? 4);
+
+const globalForLimit = globalThis as unknown as { providerLimit?: ReturnType<typeof createLimiter> };
+const providerLimit = (globalForLimit.providerLimit ??= createLimiter(PROVIDER_CONCURRENCY));
+
+const providers: Record<string, () => VideoProvider> = {
+  runway: createRunwayProvider,
+  mock: createMockProvider,
+};
+
+let provider: VideoProvider | null = null;
+
+// The provider is chosen with VIDEO_PROVIDER ("runway" or "mock").
+export function getProvider(): VideoProvider {
+  if (!provider) {
+    const name = process.env.VIDEO_PROVIDER ?? "runway";
+    const create = providers[name];
+    if (!create) throw new Error(`Unknown VIDEO_PROVIDER "${name}"`);
+    provider = create();
+  }
+  return provider;
+}
+
+// A task failure the provider reports as transient.
+class RetryableTaskError extends Error {}
+
+// Start an image-to-video task and poll it until it finishes, forwarding
+// status and progress to the job. Transient failures are retried with
+// exponential backoff, and aborting `signal` cancels the provider task. The
+// output is copied into the local media store, and the resolved URL points
+// at that durable copy.
+export async function runImageToVideo(
+  request: ImageToVideoRequest,
+  update: (patch: JobUpdate) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const provider = getProvider();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await providerLimit(() => runTask(provider, request, update, signal));
+    } catch (error: unknown) {
+      const transient = error instanceof RetryableTaskError || provider.isTransientError(error);
+      if (signal?.aborted || !transient || attempt >= PROVIDER_MAX_RETRIES) throw error;
+
+      console.warn(`${provider.name} task failed, retrying (${attempt + 1}/${PROVIDER_MAX_RETRIES}):`, error);
+      update({ status: "queued", progress: 0 });
+      await sleep(RETRY_BASE_DELAY * 2 ** attempt, undefined, { signal }).catch(() => signal?.throwIfAborted());
+    }
+  }
+}
+
+async function runTask(
+  provider: VideoProvider,
+  request: ImageToVideoRequest,
+  update: (patch: JobUpdate) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  // Cancelled while waiting for a free slot
+  signal?.throwIfAborted();
+  const taskId = await provider.startImageToVideo(request);
+  const deadline = Date.now() + TASK_TIMEOUT;
+
+  try {
+    while (Date.now() < deadline) {
+      const task = await provider.getTask(taskId);
+
+      switch (task.status) {
+        case "queued":
+          update({ status: "queued" });
+          break;
+        case "running":
+          update({ status: "running", progress: task.progress });
+          break;
+        case "succeeded": {
+          if (!task.output) return null;
+          const mediaId = await saveMedia(await provider.downloadOutput(task.output));
+          return mediaUrl(mediaId);
+        }
+        case "failed": {
+          const message = task.error ?? "Video generation failed";
+          throw task.retryable ? new RetryableTaskError(message) : new Error(message);
+        }
+      }
+
+      await sleep(provider.pollInterval, undefined, { signal });
+    }
+  } catch (error: unknown) {
+    if (!signal?.aborted) throw error;
+    await provider.cancelTask(taskId).catch((cancelError: unknown) => {
+      console.error(`Failed to cancel ${provider.name} task ${taskId}:`, cancelError);
+    });
+    throw signal.reason;
+  }
+
+  throw new Error(`Timed out waiting for ${provider.name} task`);
+}
@@ -0,0 +1,151 @@
+import { createHash, randomUUID } from "crypto";
+import { access, readFile, writeFile, rm } from "fs/promises";
+import { runFfmpeg } from "../ffmpeg";
+import { readImageSource } from "../images";
+import { dataPath } from "../storage";
+import type { ImageToVideoRequest, ProviderTask, VideoProvider } from "./types";
+
+// Simulated end-to-end task time and the share of tasks that fail.
+const MOCK_LATENCY = Number(process.env.MOCK_LATENCY_MS ?? 8000);
+const MOCK_FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE ?? 0);
+
+// Fraction of the latency spent "queued" before reporting progress.
+const QUEUED_SHARE = 0.2;
+
+type MockTask = {
+  startedAt: number;
+  cancelled: boolean;
+  failure: string | null;
+  clipId: string;
+  render: Promise<void>;
+  renderError: string | null;
+};
+
+const globalForMock = globalThis as unknown as { mockTasks?: Map<string, MockTask> };
+const tasks = (globalForMock.mockTasks ??= new Map<string, MockTask>());
+
+const mockClipPath = (clipId: string) => dataPath("mock", `${clipId}.mp4`);
+
+// Identical requests hash to the same clip and the same simulated outcome,
+// which keeps the mock deterministic.
+function hashRequest(request: ImageToVideoRequest) {
+  const { promptImage, lastFrame, promptText, model, ratio, duration, seed } = request;
+  return createHash("sha256")
+    .update(JSON.stringify([promptImage, promptText, model, ratio, duration, seed ?? null, lastFrame ?? null]))
+    .digest("hex");
+}
+
+// Render a placeholder clip: the prompt image with a slow push-in, at the
+// requested ratio and duration. With a last frame, the push-in dissolves into
+// it instead.
+async function renderClip(clipId: string, request: ImageToVideoRequest) {
+  const output = await mockClipPath(clipId);
+  const exists = await access(output).then(() => true, () => false);
+  if (exists) return; // already rendered for an identical request
+
+  const [width, height] = request.ratio.split(":").map(Number);
+  const input = await dataPath("mock", `${clipId}.src`);
+  const lastInput = await dataPath("mock", `${clipId}.last`);
+  await writeFile(input, await readImageSource(request.promptImage));
+  if (request.lastFrame) await writeFile(lastInput, await readImageSource(request.lastFrame));
+
+  const pushIn = (stream: string) =>
+    `${stream}scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase,crop=${width * 2}:${height * 2},` +
+    `zoompan=z='1+0.0015*on':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=1:s=${width}x${height}:fps=24`;
+  const duration = String(request.duration);
+
+  try {
+    await runFfmpeg([
+      "-framerate", "24",
+      "-loop", "1",
+      "-t", duration,
+      "-i", input,
+      ...(request.lastFrame
+        ? [
+            "-framerate", "24",
+            "-loop", "1",
+            "-t", duration,
+            "-i", lastInput,
+            "-filter_complex",
+            `${pushIn("[0:v]")}[a];[1:v]scale=${width}:${height}:force_original_aspect_ratio=increase,` +
+              `crop=${width}:${height},setsar=1,fps=24[b];[a][b]xfade=transition=dissolve:duration=${duration}:offset=0`,
+          ]
+        : ["-vf", pushIn("")]),
+      "-c:v", "libx264",
+      "-pix_fmt", "yuv420p",
+      "-movflags", "+faststart",
+      output,
+    ]);
+  } finally {
+    await rm(input, { force: true });
+    await rm(lastInput, { force: true });
+  }
+}
+
+export function createMockProvider(): VideoProvider {
+  return {
+    name: "mock",
+    pollInterval: 1000,
+
+    async startImageToVideo(request: ImageToVideoRequest) {
+      const clipId = hashRequest(request);
+      const shouldFail = parseInt(clipId.slice(0, 8), 16) / 0xffffffff < MOCK_FAILURE_RATE;
+
+      const task: MockTask = {
+        startedAt: Date.now(),
+        cancelled: false,
+        failure: shouldFail ? "Simulated provider failure" : null,
+        clipId,
+        render: Promise.resolve(),
+        renderError: null,
+      };
+      if (!shouldFail) {
+        task.render = renderClip(clipId, request).catch((error: unknown) => {
+          task.renderError = error instanceof Error ? error.message : "Failed to render mock clip";
+        });
+      }
+
+      const taskId = randomUUID();
+      tasks.set(taskId, task);
+      return taskId;
+    },
+
+    async getTask(taskId: string): Promise<ProviderTask> {
+      const task = tasks.get(taskId);
+      if (!task) return { status: "failed", progress: 0, output: null, error: "Unknown mock task" };
+      if (task.cancelled) return { status: "failed", progress: 0, output: null, error: "Task was cancelled" };
+
+      const elapsed = (Date.now() - task.startedAt) / MOCK_LATENCY;
+      if (elapsed < QUEUED_SHARE) {
+        return { status: "queued", progress: 0, output: null, error: null };
+      }
+      if (elapsed < 1) {
+        const progress = (elapsed - QUEUED_SHARE) / (1 - QUEUED_SHARE);
+        return { status: "running", progress, output: null, error: null };
+      }
+      if (task.failure) {
+        return { status: "failed", progress: 0, output: null, error: task.failure };
+      }
+
+      await task.render;
+      if (task.renderError) {
+        return { status: "failed", progress: 0, output: null, error: task.renderError };
+      }
+      return { status: "succeeded", progress: 1, output: `mock:${task.clipId}`, error: null };
+    },
+
+    async cancelTask(taskId: string) {
+      const task = tasks.get(taskId);
+      if (task) task.cancelled = true;
+    },
+
+    // Simulated failures are deterministic, so retrying them never helps
+    isTransientError() {
+      return false;
+    },
+
+    async downloadOutput(output: string) {
+      return readFile(await mockClipPath(output.replace(/^mock:/, "")));
+    },
+  };
+}
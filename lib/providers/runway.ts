@@ -0,0 +1,71 @@
+import RunwayML from "@runwayml/sdk";
+import type { ImageToVideoRequest, ProviderTask, VideoProvider } from "./types";
+
+export function createRunwayProvider(): VideoProvider {
+  const client = new RunwayML({
+    apiKey: process.env.RUNWAYML_API_SECRET,
+  });
+
+  return {
+    name: "runway",
+    // Runway asks consumers not to poll a task more than once every five seconds.
+    pollInterval: 5000,
+
+    async startImageToVideo(request: ImageToVideoRequest) {
+      // Models and ratios are validated upstream; the SDK types them as
+      // per-model literal unions. A last frame is sent as a second keyframe.
+      const { lastFrame, ...params } = request;
+      const promptImage = lastFrame
+        ? [{ uri: request.promptImage, position: "first" }, { uri: lastFrame, position: "last" }]
+        : request.promptImage;
+      const { id } = await client.imageToVideo.create(
+        { ...params, promptImage } as RunwayML.ImageToVideoCreateParams
+      );
+      return id;
+    },
+
+    async getTask(taskId: string): Promise<ProviderTask> {
+      const task = await client.tasks.retrieve(taskId);
+
+      switch (task.status) {
+        case "PENDING":
+        case "THROTTLED":
+          return { status: "queued", progress: 0, output: null, error: null };
+        case "RUNNING":
+          return { status: "running", progress: task.progress, output: null, error: null };
+        case "SUCCEEDED":
+          return { status: "succeeded", progress: 1, output: task.output[0] ?? null, error: null };
+        case "FAILED":
+          // INTERNAL.* failure codes are Runway-side problems worth retrying
+          return {
+            status: "failed",
+            progress: 0,
+            output: null,
+            error: task.failure,
+            retryable: task.failureCode?.startsWith("INTERNAL") ?? false,
+          };
+        case "CANCELLED":
+          return { status: "failed", progress: 0, output: null, error: "Task was cancelled" };
+      }
+    },
+
+    // Deleting a running task cancels it; deleting a finished one discards its output.
+    async cancelTask(taskId: string) {
+      await client.tasks.delete(taskId);
+    },
+
+    isTransientError(error: unknown) {
+      return (
+        error instanceof RunwayML.APIConnectionError ||
+        (error instanceof RunwayML.APIError && (error.status === 429 || (error.status ?? 0) >= 500))
+      );
+    },
+
+    // Output URLs expire within a day or two, so they must be downloaded promptly.
+    async downloadOutput(output: string) {
+      const res = await fetch(output);
+      if (!res.ok) throw new Error(`Failed to download Runway output (${res.status})`);
+      return Buffer.from(await res.arrayBuffer());
+    },
+  };
+}
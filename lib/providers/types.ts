@@ -0,0 +1,36 @@
+export type ImageToVideoRequest = {
+  model: string;
+  promptImage: string; // data URI or HTTPS URL
+  lastFrame?: string; // image the clip should end on; only for models with supportsLastFrame
+  promptText: string;
+  ratio: string; // "width:height", e.g. "1280:720"
+  duration: number; // seconds
+  seed?: number;
+};
+
+export type ProviderTaskStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type ProviderTask = {
+  status: ProviderTaskStatus;
+  progress: number; // 0..1
+  output: string | null; // provider-specific output reference once succeeded
+  error: string | null;
+  retryable?: boolean; // failed only: the provider reports the failure as transient
+};
+
+// A backend capable of turning an image + prompt into a video clip. Tasks are
+// asynchronous: start one, then poll it by ID until it finishes.
+export interface VideoProvider {
+  name: string;
+  // Minimum delay between two polls of the same task.
+  pollInterval: number;
+  startImageToVideo(request: ImageToVideoRequest): Promise<string>;
+  getTask(taskId: string): Promise<ProviderTask>;
+  // Stop a task that is no longer wanted. Safe to call on finished tasks.
+  cancelTask(taskId: string): Promise<void>;
+  // Whether an error thrown by this provider is worth retrying, e.g. a rate
+  // limit, a server error or a dropped connection.
+  isTransientError(error: unknown): boolean;
+  // Fetch the bytes of a succeeded task's output so they can be stored locally.
+  downloadOutput(output: string): Promise<Buffer>;
+}
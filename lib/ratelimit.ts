@@ -0,0 +1,92 @@
+import type { User } from "./auth";
+import { RateLimitError } from "./errors";
+import { countActiveJobs } from "./jobs";
+import { createRateLimiter } from "./limit";
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const WINDOW_MS = 60 * 1000;
+const USER_PER_MINUTE = positiveInt(process.env.RATE_LIMIT_USER_PER_MINUTE, 10);
+const IP_PER_MINUTE = positiveInt(process.env.RATE_LIMIT_IP_PER_MINUTE, 20);
+const LOGINS_PER_MINUTE = 10;
+// Local ffmpeg work: frame captures, filmstrips, crossfades and exports
+const RENDERS_PER_MINUTE = positiveInt(process.env.RATE_LIMIT_RENDERS_PER_MINUTE, 30);
+// A full generate request starts six jobs, so this allows two at once
+export const MAX_JOBS_PER_USER = positiveInt(process.env.MAX_CONCURRENT_JOBS_PER_USER, 12);
+
+// Limiters are kept on globalThis so dev-mode hot reloads don't reset them.
+const globalForLimits = globalThis as unknown as {
+  userLimiter?: ReturnType<typeof createRateLimiter>;
+  ipLimiter?: ReturnType<typeof createRateLimiter>;
+  loginLimiter?: ReturnType<typeof createRateLimiter>;
+  userRenderLimiter?: ReturnType<typeof createRateLimiter>;
+  ipRenderLimiter?: ReturnType<typeof createRateLimiter>;
+};
+const userLimiter = (globalForLimits.userLimiter ??= createRateLimiter(USER_PER_MINUTE, WINDOW_MS));
+const ipLimiter = (globalForLimits.ipLimiter ??= createRateLimiter(IP_PER_MINUTE, WINDOW_MS));
+const loginLimiter = (globalForLimits.loginLimiter ??= createRateLimiter(LOGINS_PER_MINUTE, WINDOW_MS));
+const userRenderLimiter = (globalForLimits.userRenderLimiter ??= createRateLimiter(RENDERS_PER_MINUTE, WINDOW_MS));
+const ipRenderLimiter = (globalForLimits.ipRenderLimiter ??= createRateLimiter(RENDERS_PER_MINUTE, WINDOW_MS));
+
+const toSeconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+// Refuse `jobCount` more jobs when the user already has as many running as
+// they may.
+function enforceJobLimit(user: User, jobCount: number) {
+  const active = countActiveJobs(user.id);
+  if (active + jobCount > MAX_JOBS_PER_USER) {
+    throw new RateLimitError(
+      `You have ${active} jobs in progress and may run ${MAX_JOBS_PER_USER} at once. Wait for some to finish or cancel them.`,
+      // Clips take about a minute; a rough guess is better than none
+      30
+    );
+  }
+}
+
+// Check a request that would start `jobCount` generation jobs against the
+// caller's concurrency limit and the per-user and per-IP request rates.
+// Throws a RateLimitError when any is exceeded; otherwise counts the request.
+export function enforceGenerationLimits(user: User, ip: string, jobCount: number) {
+  enforceJobLimit(user, jobCount);
+
+  const userWait = userLimiter(user.id);
+  if (userWait > 0) {
+    throw new RateLimitError(
+      `Too many generation requests, at most ${USER_PER_MINUTE} a minute. Try again in ${toSeconds(userWait)}s.`,
+      toSeconds(userWait)
+    );
+  }
+  const ipWait = ipLimiter(ip);
+  if (ipWait > 0) {
+    throw new RateLimitError(
+      `Too many generation requests from this address. Try again in ${toSeconds(ipWait)}s.`,
+      toSeconds(ipWait)
+    );
+  }
+}
+
+// Like enforceGenerationLimits, for requests that run ffmpeg here rather
+// than call the provider. `jobCount` is 0 for requests that render while the
+// caller waits.
+export function enforceRenderLimits(user: User, ip: string, jobCount: number) {
+  enforceJobLimit(user, jobCount);
+
+  const wait = Math.max(userRenderLimiter(user.id), ipRenderLimiter(ip));
+  if (wait > 0) {
+    throw new RateLimitError(
+      `Too many render requests, at most ${RENDERS_PER_MINUTE} a minute. Try again in ${toSeconds(wait)}s.`,
+      toSeconds(wait)
+    );
+  }
+}
+
+// Slow down password and token guessing from one address.
+export function enforceLoginLimit(ip: string) {
+  const wait = loginLimiter(ip);
+  if (wait > 0) {
+    throw new RateLimitError(`Too many sign-in attempts. Try again in ${toSeconds(wait)}s.`, toSeconds(wait));
+  }
+}
@@ -0,0 +1,151 @@
+import { HttpError } from "./errors";
+import type { ClipSettings, GenerationSettings, ModelSpec, PersonAngle, PromptTemplates } from "./types";
+
+// What each image-to-video model accepts and costs. Mirrors the Runway API's
+// per-model parameter rules and credit prices; other providers are expected
+// to accept the same values.
+export const MODELS: Record<string, ModelSpec> = {
+  gen4_turbo: {
+    label: "Gen-4 Turbo",
+    ratios: ["1280:720", "720:1280", "1104:832", "832:1104", "960:960", "1584:672"],
+    durations: [2, 3, 4, 5, 6, 7, 8, 9, 10],
+    defaultDuration: 10,
+    supportsSeed: true,
+    supportsLastFrame: false,
+    creditsPerSecond: 5,
+  },
+  gen3a_turbo: {
+    label: "Gen-3 Alpha Turbo",
+    ratios: ["1280:768", "768:1280"],
+    durations: [5, 10],
+    defaultDuration: 10,
+    supportsSeed: true,
+    supportsLastFrame: true,
+    creditsPerSecond: 5,
+  },
+  "veo3.1": {
+    label: "Veo 3.1",
+    ratios: ["1280:720", "720:1280", "1080:1920", "1920:1080"],
+    durations: [4, 6, 8],
+    defaultDuration: 8,
+    supportsSeed: false,
+    supportsLastFrame: true,
+    creditsPerSecond: 40,
+  },
+  "veo3.1_fast": {
+    label: "Veo 3.1 Fast",
+    ratios: ["1280:720", "720:1280", "1080:1920", "1920:1080"],
+    durations: [4, 6, 8],
+    defaultDuration: 8,
+    supportsSeed: false,
+    supportsLastFrame: true,
+    creditsPerSecond: 15,
+  },
+  veo3: {
+    label: "Veo 3",
+    ratios: ["1280:720", "720:1280", "1080:1920", "1920:1080"],
+    durations: [8],
+    defaultDuration: 8,
+    supportsSeed: false,
+    supportsLastFrame: false,
+    creditsPerSecond: 40,
+  },
+};
+
+export const MAX_SEED = 2 ** 32 - 1;
+const MAX_TEMPLATE_LENGTH = 1000;
+
+// Placeholders: {angle} in the person template, {prompt} in the explore template.
+export const DEFAULT_TEMPLATES: PromptTemplates = {
+  setting:
+    "Slow cinematic pan across this scene, smooth camera movement, atmospheric lighting, high quality",
+  person:
+    "Person {angle}, talking naturally and expressively, subtle head movements, natural facial expressions, cinematic lighting",
+  explore: "{prompt}",
+};
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  model: "gen4_turbo",
+  ratio: "1280:720",
+  duration: 10,
+  templates: DEFAULT_TEMPLATES,
+};
+
+const ANGLE_PHRASES: Record<PersonAngle, string> = {
+  front: "facing the camera",
+  left: "seen in left profile",
+  right: "seen in right profile",
+  back: "seen from behind",
+};
+
+export const personPrompt = (templates: PromptTemplates, angle: PersonAngle) =>
+  templates.person.replaceAll("{angle}", ANGLE_PHRASES[angle]);
+
+export const explorePrompt = (templates: PromptTemplates, prompt: string) =>
+  templates.explore.replaceAll("{prompt}", prompt);
+
+// The per-clip part of the settings, as recorded on each node.
+export const clipSettings = ({ model, ratio, duration, seed }: GenerationSettings): ClipSettings =>
+  seed === undefined ? { model, ratio, duration } : { model, ratio, duration, seed };
+
+function parseTemplates(input: unknown): PromptTemplates {
+  if (input === undefined) return DEFAULT_TEMPLATES;
+  if (typeof input !== "object" || input === null) {
+    throw new HttpError(400, "settings.templates must be an object");
+  }
+
+  const templates = { ...DEFAULT_TEMPLATES };
+  for (const key of Object.keys(DEFAULT_TEMPLATES) as (keyof PromptTemplates)[]) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !value.trim() || value.length > MAX_TEMPLATE_LENGTH) {
+      throw new HttpError(400, `settings.templates.${key} must be 1-${MAX_TEMPLATE_LENGTH} characters`);
+    }
+    templates[key] = value.trim();
+  }
+  if (!templates.explore.includes("{prompt}")) {
+    throw new HttpError(400, "settings.templates.explore must contain {prompt}");
+  }
+  return templates;
+}
+
+// Validate client-supplied settings against the chosen model and fill in
+// server-side defaults. Ratio and duration fall back to the model's own
+// defaults when the global ones don't apply to it. Throws a 400 HttpError.
+export function parseSettings(input: unknown): GenerationSettings {
+  if (input === undefined) return DEFAULT_SETTINGS;
+  if (typeof input !== "object" || input === null) {
+    throw new HttpError(400, "settings must be an object");
+  }
+  const { model = DEFAULT_SETTINGS.model, ratio, duration, seed, templates } = input as Record<string, unknown>;
+
+  const spec = typeof model === "string" ? MODELS[model] : undefined;
+  if (!spec) {
+    throw new HttpError(400, `Unknown model. Choose one of: ${Object.keys(MODELS).join(", ")}`);
+  }
+
+  const chosenRatio = ratio ?? (spec.ratios.includes(DEFAULT_SETTINGS.ratio) ? DEFAULT_SETTINGS.ratio : spec.ratios[0]);
+  if (typeof chosenRatio !== "string" || !spec.ratios.includes(chosenRatio)) {
+    throw new HttpError(400, `${spec.label} supports ratios ${spec.ratios.join(", ")}`);
+  }
+
+  const chosenDuration = duration ?? spec.defaultDuration;
+  if (typeof chosenDuration !== "number" || !spec.durations.includes(chosenDuration)) {
+    throw new HttpError(400, `${spec.label} supports durations of ${spec.durations.join(", ")} seconds`);
+  }
+
+  if (seed !== undefined && seed !== null) {
+    if (!spec.supportsSeed) throw new HttpError(400, `${spec.label} does not support seeds`);
+    if (!Number.isInteger(seed) || (seed as number) < 0 || (seed as number) > MAX_SEED) {
+      throw new HttpError(400, `seed must be an integer between 0 and ${MAX_SEED}`);
+    }
+  }
+
+  return {
+    model: model as string,
+    ratio: chosenRatio,
+    duration: chosenDuration,
+    ...(seed !== undefined && seed !== null ? { seed: seed as number } : {}),
+    templates: parseTemplates(templates),
+  };
+}
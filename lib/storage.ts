@@ -0,0 +1,19 @@
+import { mkdir } from "fs/promises";
+import path from "path";
+
+// Root directory for everything the server writes to disk.
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+
+// Resolve a path inside the data directory, creating its parent directory.
+export async function dataPath(...segments: string[]): Promise<string> {
+  const target = path.join(DATA_DIR, ...segments);
+  await mkdir(path.dirname(target), { recursive: true });
+  return target;
+}
+
+// Resolve a directory inside the data directory, creating it if needed.
+export async function dataDir(...segments: string[]): Promise<string> {
+  const target = path.join(DATA_DIR, ...segments);
+  await mkdir(target, { recursive: true });
+  return target;
+}
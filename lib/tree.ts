@@ -0,0 +1,52 @@
+import type { ExploreNode } from "./types";
+
+// Helpers for the exploration tree, which is stored as a flat array where
+// each node points at its parent by index (-1 = the root videos).
+
+// Indices of every node below `index`, not including `index` itself.
+export function descendantsOf(nodes: ExploreNode[], index: number): Set<number> {
+  const found = new Set<number>();
+  // Parents always come before their children, so one forward pass is enough
+  for (let i = index + 1; i < nodes.length; i++) {
+    const parent = nodes[i].parentIndex;
+    if (parent === index || found.has(parent)) found.add(i);
+  }
+  return found;
+}
+
+// Remove a set of nodes and renumber the rest. Every descendant of a removed
+// node must be removed too. `remap` translates an old index to its new one,
+// or to the nearest surviving ancestor when the node itself was removed.
+export function removeNodes(
+  nodes: ExploreNode[],
+  removed: Set<number>
+): { nodes: ExploreNode[]; remap: (index: number) => number } {
+  const newIndex: number[] = [];
+  const kept: ExploreNode[] = [];
+
+  nodes.forEach((node, i) => {
+    if (removed.has(i)) {
+      newIndex[i] = node.parentIndex >= 0 ? newIndex[node.parentIndex] : -1;
+      return;
+    }
+    newIndex[i] = kept.length;
+    kept.push({ ...node, parentIndex: node.parentIndex >= 0 ? newIndex[node.parentIndex] : -1 });
+  });
+
+  return { nodes: kept, remap: (index) => (index >= 0 ? newIndex[index] ?? -1 : -1) };
+}
+
+// Direct children of a node, by index. Pass -1 for the root's children.
+export function childrenOf(nodes: ExploreNode[], index: number): number[] {
+  return nodes.flatMap((node, i) => (node.parentIndex === index ? [i] : []));
+}
+
+// Append nodes below the node with ID `parentId` (null = the root videos),
+// looking its index up in `nodes` as they are now rather than as they were
+// when the new nodes were requested. Returns `nodes` unchanged if the parent
+// has since been deleted.
+export function appendNodes(nodes: ExploreNode[], added: ExploreNode[], parentId: string | null): ExploreNode[] {
+  const parentIndex = parentId === null ? -1 : nodes.findIndex((node) => node.id === parentId);
+  if (parentId !== null && parentIndex < 0) return nodes;
+  return [...nodes, ...added.map((node) => ({ ...node, parentIndex }))];
+}
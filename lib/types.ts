@@ -0,0 +1,119 @@
+// Types shared between the API routes and the page.
+
+export const PERSON_ANGLES = ["front", "left", "right", "back"] as const;
+
+export type PersonAngle = (typeof PERSON_ANGLES)[number];
+
+// Image formats accepted for uploads; checked again on the server.
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+export type RootVideos = {
+  setting: string;
+  person: Partial<Record<PersonAngle, string>>; // one clip per uploaded photo
+  composite?: string; // front clip layered over the setting pan
+};
+
+// What an image-to-video model accepts; the server's table lives in lib/settings.
+export type ModelSpec = {
+  label: string;
+  ratios: string[];
+  durations: number[]; // seconds
+  defaultDuration: number;
+  supportsSeed: boolean;
+  supportsLastFrame: boolean; // can be given the frame to end on as well as the first
+  creditsPerSecond: number; // provider credits charged per second of output
+};
+
+// Prompt text wrapped around generation requests. {angle} in the person
+// template and {prompt} in the explore template are filled in per clip.
+export type PromptTemplates = {
+  setting: string;
+  person: string;
+  explore: string;
+};
+
+export type ClipSettings = {
+  model: string;
+  ratio: string;
+  duration: number; // seconds
+  seed?: number; // absent = chosen by the provider
+};
+
+export type GenerationSettings = ClipSettings & {
+  templates: PromptTemplates;
+};
+
+// A preset for one part of a structured explore prompt
+export type PromptOption = {
+  label: string;
+  phrase: string; // what it adds to the prompt
+};
+
+// Structured direction for an explore prompt. Each choice is a key into the
+// matching preset table; focus is free text.
+export type PromptControls = {
+  camera?: string;
+  speed?: string;
+  focus?: string; // subject to keep the shot on
+  lighting?: string;
+  style?: string;
+};
+
+// Part of a captured frame, as fractions of its width and height from the
+// top left corner.
+export type FrameRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// How a region steers an explore: "crop" zooms the prompt image into it,
+// "hint" keeps the whole frame and describes the region in the prompt.
+export type RegionMode = "crop" | "hint";
+
+export type ExploreNodeStatus = "pending" | "ready" | "failed";
+
+export type ExploreNode = {
+  id: string;
+  prompt: string;
+  frameImage: string; // base64 data URI of the captured frame
+  videoUrl: string; // empty until the node's job succeeds
+  status?: ExploreNodeStatus; // absent on nodes saved before statuses existed = ready
+  jobId?: string; // generation job, while pending
+  error?: string; // why generation failed
+  variantGroup?: string; // shared by alternatives generated together from one frame
+  preferred?: boolean; // the variant chosen to continue from
+  parentIndex: number; // -1 = branched from root
+  sourceClip?: string; // clip the frame was captured from: a root clip key or the parent node ID
+  captureTime?: number; // seconds into the source clip where the frame was captured
+  settings?: ClipSettings; // what the clip was generated with
+  cached?: boolean; // video reused from an identical earlier request
+  controls?: PromptControls; // structured direction composed into the prompt
+  region?: FrameRegion; // part of frameImage the explore zoomed into
+  regionMode?: RegionMode;
+  continued?: boolean; // frameImage is the last frame of the parent clip
+  bridge?: { from: string; to: string }; // a transition between two clips, by root key or node ID
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  images: Record<string, string | null>; // upload slot key -> data URI
+  videos: RootVideos | null;
+  nodes: ExploreNode[];
+  currentIndex: number; // selected node, -1 = root videos
+  settings?: GenerationSettings; // last used, restored into the settings panel
+  runJobId?: string; // scripted run that fills the project in
+};
+
+// Credits spent, as counted against the budgets. Limits are null when unset.
+export type UsageSummary = {
+  project: number | null; // null when no project was asked about
+  today: number; // last 24 hours, across all projects
+  limits: { daily: number | null; project: number | null };
+};
+
+export type ProjectSummary = Pick<Project, "id" | "name" | "createdAt" | "updatedAt">;
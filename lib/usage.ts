@@ -0,0 +1,134 @@
+import { randomUUID } from "crypto";
+import { appendFile, readFile } from "fs/promises";
+import { HttpError } from "./errors";
+import type { JobKind } from "./jobs";
+import { createLimiter } from "./limit";
+import { MODELS } from "./settings";
+import { dataPath } from "./storage";
+import type { UsageSummary } from "./types";
+
+export type UsageOutcome = "pending" | "succeeded" | "failed" | "cancelled";
+
+// One provider task in the ledger.
+export type UsageEntry = {
+  id: string;
+  projectId: string | null;
+  kind: JobKind;
+  model: string;
+  duration: number; // seconds of video requested
+  credits: number; // estimated from the model's price
+  outcome: UsageOutcome;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UsageRequest = Pick<UsageEntry, "projectId" | "kind" | "model" | "duration">;
+
+// Optional spending caps in credits: across all projects over the last 24
+// hours, and per project over its lifetime.
+const parseBudget = (value: string | undefined) => (value ? Number(value) : null);
+const DAILY_BUDGET = parseBudget(process.env.BUDGET_DAILY_CREDITS);
+const PROJECT_BUDGET = parseBudget(process.env.BUDGET_PROJECT_CREDITS);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ledgerPath = () => dataPath("usage.jsonl");
+
+// The ledger is an append-only JSON Lines file; a later line for the same
+// entry supersedes earlier ones. It is read once and then kept in memory.
+const globalForUsage = globalThis as unknown as {
+  usageLedger?: Promise<Map<string, UsageEntry>>;
+  reservations?: ReturnType<typeof createLimiter>;
+};
+
+// Tasks are checked against the budgets and recorded one at a time, so two
+// can't both pass the check before either is in the ledger. The daily budget
+// spans every project, so this is one queue rather than one per project.
+const reservations = (globalForUsage.reservations ??= createLimiter(1));
+
+function loadLedger(): Promise<Map<string, UsageEntry>> {
+  return (globalForUsage.usageLedger ??= (async () => {
+    const text = await readFile(await ledgerPath(), "utf8").catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return "";
+      throw error;
+    });
+    const entries = new Map<string, UsageEntry>();
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      const entry: UsageEntry = JSON.parse(line);
+      entries.set(entry.id, entry);
+    }
+    return entries;
+  })());
+}
+
+async function writeEntry(entry: UsageEntry) {
+  (await loadLedger()).set(entry.id, entry);
+  await appendFile(await ledgerPath(), JSON.stringify(entry) + "\n");
+}
+
+export const estimateCredits = (model: string, duration: number) => (MODELS[model]?.creditsPerSecond ?? 0) * duration;
+
+// Failed and cancelled tasks aren't billed; tasks in flight are counted so
+// concurrent requests can't overshoot a budget.
+const isBilled = (entry: UsageEntry) => entry.outcome === "succeeded" || entry.outcome === "pending";
+
+const totalCredits = (entries: UsageEntry[]) => entries.reduce((sum, entry) => sum + entry.credits, 0);
+
+export async function getUsage(projectId: string | null): Promise<UsageSummary> {
+  const billed = [...(await loadLedger()).values()].filter(isBilled);
+  const since = Date.now() - DAY;
+  return {
+    project: projectId ? totalCredits(billed.filter((entry) => entry.projectId === projectId)) : null,
+    today: totalCredits(billed.filter((entry) => Date.parse(entry.createdAt) >= since)),
+    limits: { daily: DAILY_BUDGET, project: PROJECT_BUDGET },
+  };
+}
+
+// Refuse work that would take spending past a budget, with a 402 HttpError.
+export async function checkBudget(projectId: string | null, credits: number) {
+  const usage = await getUsage(projectId);
+
+  if (DAILY_BUDGET !== null && usage.today + credits > DAILY_BUDGET) {
+    throw new HttpError(
+      402,
+      `Daily budget exceeded: this needs ${credits} credits, but only ${Math.max(0, DAILY_BUDGET - usage.today)} ` +
+        `of ${DAILY_BUDGET} are left for the last 24 hours`
+    );
+  }
+  if (PROJECT_BUDGET !== null && usage.project !== null && usage.project + credits > PROJECT_BUDGET) {
+    throw new HttpError(
+      402,
+      `Project budget exceeded: this needs ${credits} credits, but only ${Math.max(0, PROJECT_BUDGET - usage.project)} ` +
+        `of ${PROJECT_BUDGET} are left for this project`
+    );
+  }
+}
+
+// Record a provider task in the ledger while `run` performs it. The budget is
+// checked again here, together with recording the task as pending, so retried
+// jobs are held to it too and concurrent ones can't overshoot it.
+export async function trackUsage(
+  request: UsageRequest,
+  run: () => Promise<string | null>,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const credits = estimateCredits(request.model, request.duration);
+  const entry = await reservations(async () => {
+    await checkBudget(request.projectId, credits);
+    const now = new Date().toISOString();
+    const pending: UsageEntry = { id: randomUUID(), ...request, credits, outcome: "pending", createdAt: now, updatedAt: now };
+    await writeEntry(pending);
+    return pending;
+  });
+
+  const finish = (outcome: UsageOutcome) => writeEntry({ ...entry, outcome, updatedAt: new Date().toISOString() });
+  try {
+    const result = await run();
+    await finish("succeeded");
+    return result;
+  } catch (error: unknown) {
+    await finish(signal?.aborted ? "cancelled" : "failed");
+    throw error;
+  }
+}
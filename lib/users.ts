@@ -0,0 +1,94 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { readFile, rename, writeFile } from "fs/promises";
+import { promisify } from "util";
+import { HttpError } from "./errors";
+import { createLimiter } from "./limit";
+import { dataPath } from "./storage";
+
+// A user of the local store, as kept on disk.
+type StoredUser = {
+  id: string;
+  name: string;
+  salt: string; // hex
+  hash: string; // hex scrypt of the password
+  createdAt: string;
+};
+
+export type User = {
+  id: string;
+  name: string;
+};
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Users live in a single JSON file under .data, written atomically.
+const usersPath = () => dataPath("users.json");
+
+// Changes to the store run one at a time, so two registrations can't both
+// read the same users and the later write drop the earlier user. Kept on
+// globalThis so dev-mode hot reloads don't start a second queue.
+const globalForUsers = globalThis as unknown as { userWrites?: ReturnType<typeof createLimiter> };
+const userWrites = (globalForUsers.userWrites ??= createLimiter(1));
+
+async function readUsers(): Promise<StoredUser[]> {
+  try {
+    return JSON.parse(await readFile(await usersPath(), "utf8"));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeUsers(users: StoredUser[]) {
+  const target = await usersPath();
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(users, null, 2));
+  await rename(temp, target);
+}
+
+export async function hasUsers(): Promise<boolean> {
+  return (await readUsers()).length > 0;
+}
+
+// Add a user to the store. With `firstOnly`, refuse with a 403 unless the
+// store is still empty, checked along with the write so concurrent
+// registrations can't both be first.
+export async function createUser(name: unknown, password: unknown, firstOnly = false): Promise<User> {
+  if (typeof name !== "string" || !/^[\w.@-]{1,64}$/.test(name)) {
+    throw new HttpError(400, "User name must be 1-64 letters, digits or . _ @ -", "name");
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, "password");
+  }
+
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  const user: StoredUser = {
+    id: randomUUID(),
+    name,
+    salt: salt.toString("hex"),
+    hash: hash.toString("hex"),
+    createdAt: new Date().toISOString(),
+  };
+
+  await userWrites(async () => {
+    const users = await readUsers();
+    if (firstOnly && users.length > 0) throw new HttpError(403, "Registration is closed");
+    if (users.some((existing) => existing.name === name)) throw new HttpError(409, "That user name is taken", "name");
+    await writeUsers([...users, user]);
+  });
+  return { id: user.id, name: user.name };
+}
+
+// Check a name and password against the store. Resolves with the user, or
+// null when either is wrong.
+export async function verifyPassword(name: unknown, password: unknown): Promise<User | null> {
+  if (typeof name !== "string" || typeof password !== "string") return null;
+  const user = (await readUsers()).find((candidate) => candidate.name === name);
+  if (!user) return null;
+
+  const hash = await scryptAsync(password, Buffer.from(user.salt, "hex"), KEY_LENGTH);
+  return timingSafeEqual(hash, Buffer.from(user.hash, "hex")) ? { id: user.id, name: user.name } : null;
+}
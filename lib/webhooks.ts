@@ -0,0 +1,149 @@
+import { createHmac, randomUUID } from "crypto";
+import { appendFile, readFile } from "fs/promises";
+import { setTimeout as sleep } from "timers/promises";
+import type { Job } from "./jobs";
+import { dataPath } from "./storage";
+
+// Endpoints told about every finished job, comma-separated, and the key their
+// payloads are signed with. Nothing is sent when no URLs are set, nor without
+// a secret, since receivers couldn't tell our payloads from forged ones.
+const WEBHOOK_URLS = (process.env.WEBHOOK_URLS ?? "").split(",").map((url) => url.trim()).filter(Boolean);
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET ?? "";
+if (WEBHOOK_URLS.length > 0 && !WEBHOOK_SECRET) {
+  console.warn("WEBHOOK_URLS is set without WEBHOOK_SECRET, so no webhooks will be sent until a secret is set.");
+}
+// Failed deliveries are retried this many times, waiting RETRY_BASE_DELAY,
+// then twice that, and so on between attempts.
+const WEBHOOK_MAX_RETRIES = Number(process.env.WEBHOOK_MAX_RETRIES ?? 5);
+const RETRY_BASE_DELAY = 5000;
+const DELIVERY_TIMEOUT = 10000;
+// Media links in payloads are made absolute against this, e.g. https://vidgen.example.com
+const PUBLIC_URL = (process.env.PUBLIC_URL ?? "").replace(/\/+$/, "");
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export type WebhookEvent = "job.succeeded" | "job.failed" | "job.cancelled";
+
+// The JSON body of a delivery. Retries of one delivery share its ID.
+export type WebhookPayload = {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  job: Job;
+  projectId: string | null;
+  nodeId: string | null; // exploration node the output becomes
+  rootClip: string | null; // root clip key the output becomes
+  videoUrl: string | null;
+};
+
+// One attempt to deliver a payload to one endpoint.
+export type WebhookDelivery = {
+  id: string; // payload ID
+  url: string;
+  event: WebhookEvent;
+  jobId: string;
+  owner: string | null; // the job's owner, who may see this attempt
+  attempt: number; // 1 for the first try
+  outcome: "delivered" | "retrying" | "failed"; // failed = given up
+  status: number | null; // HTTP status, null when no response arrived
+  error: string | null;
+  createdAt: string;
+};
+
+// Every attempt is appended to an append-only JSON Lines log.
+const logPath = () => dataPath("webhooks.jsonl");
+
+async function logDelivery(delivery: WebhookDelivery) {
+  await appendFile(await logPath(), JSON.stringify(delivery) + "\n").catch((error: unknown) =>
+    console.error("Failed to log webhook delivery:", error)
+  );
+}
+
+// The most recent delivery attempts for jobs `owner` started, newest first.
+export async function listDeliveries(owner: string, limit: number): Promise<WebhookDelivery[]> {
+  const text = await readFile(await logPath(), "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") return "";
+    throw error;
+  });
+  const deliveries: WebhookDelivery[] = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+  return deliveries.filter((delivery) => delivery.owner === owner).slice(-limit).reverse();
+}
+
+export const webhooksEnabled = () => WEBHOOK_URLS.length > 0 && WEBHOOK_SECRET !== "";
+
+// Sign `body` as sent at `timestamp` (seconds): "t=<timestamp>,v1=<hex
+// HMAC-SHA256 of `${timestamp}.${body}`>". Receivers recompute it with the
+// shared secret and should reject stale timestamps to stop replays.
+export function signPayload(body: string, timestamp: number): string {
+  const digest = createHmac("sha256", WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// Rate limits, timeouts and server errors are worth another try; other
+// client errors mean the endpoint won't take this payload.
+const isRetryable = (status: number | null) => status === null || status === 408 || status === 429 || status >= 500;
+
+async function deliver(url: string, payload: WebhookPayload) {
+  const body = JSON.stringify(payload);
+  for (let attempt = 1; ; attempt++) {
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Event": payload.event,
+          "X-Webhook-Delivery": payload.id,
+          [SIGNATURE_HEADER]: signPayload(body, Math.floor(Date.now() / 1000)),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+      });
+      status = res.status;
+      if (!res.ok) error = `Endpoint responded with ${res.status}`;
+    } catch (err: unknown) {
+      error = err instanceof Error ? err.message : "Delivery failed";
+    }
+
+    const retry = error !== null && isRetryable(status) && attempt <= WEBHOOK_MAX_RETRIES;
+    await logDelivery({
+      id: payload.id,
+      url,
+      event: payload.event,
+      jobId: payload.job.id,
+      owner: payload.job.owner,
+      attempt,
+      outcome: error === null ? "delivered" : retry ? "retrying" : "failed",
+      status,
+      error,
+      createdAt: new Date().toISOString(),
+    });
+    if (!retry) return;
+    await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+  }
+}
+
+// Tell every configured endpoint that a job has finished. Deliveries run in
+// the background; failures are logged, never thrown.
+export function notifyJobFinished(job: Job) {
+  if (!webhooksEnabled() || (job.status !== "succeeded" && job.status !== "failed" && job.status !== "cancelled")) {
+    return;
+  }
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event: `job.${job.status}`,
+    createdAt: new Date().toISOString(),
+    job,
+    projectId: job.context.projectId ?? null,
+    nodeId: job.context.nodeId ?? null,
+    rootClip: job.context.rootClip ?? null,
+    videoUrl: job.videoUrl && `${PUBLIC_URL}${job.videoUrl}`,
+  };
+  for (const url of WEBHOOK_URLS) {
+    deliver(url, payload).catch((error: unknown) => console.error(`Webhook delivery to ${url} failed:`, error));
+  }
+}
@@ -0,0 +1,163 @@
+import { promisify } from "util";
+import { crc32, deflateRaw, inflateRawSync } from "zlib";
+
+const deflateRawAsync = promisify(deflateRaw);
+
+// A minimal ZIP reader and writer for project bundles: stored and deflated
+// entries only, no ZIP64, no encryption. Everything is held in memory.
+
+export type ZipEntry = {
+  name: string; // path inside the archive, "/"-separated
+  data: Buffer;
+  stored?: boolean; // already compressed, so written as is without trying to deflate it
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+const UTF8_NAMES = 0x0800;
+const VERSION = 20; // 2.0: deflate
+const MAX_COMMENT = 0xffff;
+
+// MS-DOS date and time, as stored in ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Pack entries into a ZIP archive. Entries are deflated, off the main
+// thread, when that makes them smaller; `stored` ones are written as is.
+export async function createZip(entries: ZipEntry[], modified = new Date()): Promise<Buffer> {
+  const stamp = dosDateTime(modified);
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data, stored } of entries) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const deflated = stored ? null : await deflateRawAsync(data);
+    const method = deflated && deflated.length < data.length ? DEFLATED : STORED;
+    const body = method === DEFLATED ? deflated! : data;
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(UTF8_NAMES, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(stamp.time, 10);
+    local.writeUInt16LE(stamp.date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(VERSION, 4);
+    central.writeUInt16LE(VERSION, 6);
+    central.writeUInt16LE(UTF8_NAMES, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(stamp.time, 12);
+    central.writeUInt16LE(stamp.date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, body);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + body.length;
+  }
+
+  const directorySize = centrals.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+// Caps on what an archive may unpack to, so a small archive of highly
+// compressed data can't exhaust memory.
+export type ZipLimits = {
+  maxEntryBytes: number; // largest single file
+  maxTotalBytes: number; // all files together
+};
+
+// Unpack a ZIP archive into its files, keyed by path. Directories are
+// skipped. Sizes are checked against `limits` before anything is inflated,
+// and inflating stops at the declared size. Throws a plain Error describing
+// the first problem found.
+export function readZip(archive: Buffer, limits: ZipLimits): Map<string, Buffer> {
+  // The end of central directory record sits at the very end, after an
+  // optional comment
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - MAX_COMMENT); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("not a zip archive");
+
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  if (count === 0xffff || position === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+  const files = new Map<string, Buffer>();
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > archive.length || archive.readUInt32LE(position) !== CENTRAL_HEADER) {
+      throw new Error("central directory is damaged");
+    }
+    const flags = archive.readUInt16LE(position + 8);
+    const method = archive.readUInt16LE(position + 10);
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive.toString("utf8", position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) throw new Error(`${name} is encrypted`);
+    if (size > limits.maxEntryBytes) throw new Error(`${name} unpacks to more than ${limits.maxEntryBytes} bytes`);
+    total += size;
+    if (total > limits.maxTotalBytes) throw new Error(`archive unpacks to more than ${limits.maxTotalBytes} bytes`);
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new Error(`${name} is damaged`);
+    }
+    // The local header's name and extra field can differ from the central copy
+    const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const body = archive.subarray(start, start + compressedSize);
+    if (body.length !== compressedSize) throw new Error(`${name} is truncated`);
+
+    let data: Buffer;
+    if (method === STORED) data = body;
+    else if (method === DEFLATED) {
+      try {
+        // Output past the declared size is refused rather than buffered
+        data = inflateRawSync(body, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new Error(`${name} could not be decompressed`);
+      }
+    } else throw new Error(`${name} uses an unsupported compression method`);
+
+    if (data.length !== size || crc32(data) !== crc) throw new Error(`${name} failed its checksum`);
+    files.set(name, data);
+  }
+  return files;
+}
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+// Run an exploration plan against a recursiveVidGen server and wait for it.
+//
+//   node scripts/run-plan.mjs plan.json [--url http://localhost:3000] [--token <API token>]
+//
+// Image paths in the plan are read relative to the plan file and image URLs
+// are downloaded; both are sent inline.
+// Ctrl+C cancels the run. Exits non-zero unless every step succeeded.
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+
+const POLL_INTERVAL = 5000;
+const IMAGE_TYPES = { ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".png": "image/png", ".webp": "image/webp" };
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string", default: process.env.VIDGEN_URL ?? "http://localhost:3000" },
+    token: { type: "string", default: process.env.VIDGEN_TOKEN },
+  },
+});
+if (positionals.length !== 1) {
+  console.error("Usage: node scripts/run-plan.mjs plan.json [--url <server>] [--token <API token>]");
+  process.exit(2);
+}
+const [planFile] = positionals;
+const server = options.url.replace(/\/+$/, "");
+const headers = {
+  "Content-Type": "application/json",
+  ...(options.token && { Authorization: `Bearer ${options.token}` }),
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Rate limited requests wait as the server asks and try again
+async function api(method, route, body) {
+  let res = await fetch(`${server}${route}`, { method, headers, body: body && JSON.stringify(body) });
+  while (res.status === 429) {
+    const wait = Number(res.headers.get("Retry-After")) || 30;
+    console.log(`Rate limited, trying again in ${wait}s`);
+    await sleep(wait * 1000);
+    res = await fetch(`${server}${route}`, { method, headers, body: body && JSON.stringify(body) });
+  }
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(`${data.error ?? `${route} responded with ${res.status}`}${data.field ? ` (${data.field})` : ""}`);
+  return data;
+}
+
+// The server only takes data URIs: URLs are downloaded, anything else is a file
+async function inlineImage(value) {
+  if (typeof value !== "string" || value.startsWith("data:")) return value;
+  if (/^https?:\/\//.test(value)) {
+    const res = await fetch(value);
+    const type = res.headers.get("content-type")?.split(";")[0];
+    if (!res.ok || !Object.values(IMAGE_TYPES).includes(type)) throw new Error(`${value} is not a JPEG, PNG or WebP image`);
+    return `data:${type};base64,${Buffer.from(await res.arrayBuffer()).toString("base64")}`;
+  }
+  const file = path.resolve(path.dirname(planFile), value);
+  const type = IMAGE_TYPES[path.extname(file).toLowerCase()];
+  if (!type) throw new Error(`${value} is not a JPEG, PNG or WebP image`);
+  return `data:${type};base64,${(await readFile(file)).toString("base64")}`;
+}
+
+async function main() {
+  const plan = JSON.parse(await readFile(planFile, "utf8"));
+  if (plan.images && typeof plan.images === "object") {
+    for (const [slot, value] of Object.entries(plan.images)) plan.images[slot] = await inlineImage(value);
+  }
+
+  const run = await api("POST", "/api/runs", plan);
+  const projectUrl = `${server}/projects/${run.projectId}`;
+  console.log(`Started run ${run.jobId}: ${run.steps} steps, at most ${run.credits} credits`);
+  console.log(`Project: ${projectUrl}`);
+
+  process.once("SIGINT", async () => {
+    console.log("\nCancelling...");
+    await api("POST", `/api/jobs/${run.jobId}/cancel`).catch((error) => console.error(error.message));
+    process.exit(130);
+  });
+
+  let lastProgress = -1;
+  for (;;) {
+    const job = await api("GET", `/api/jobs/${run.jobId}`);
+    if (job.status === "running" && job.progress !== lastProgress) {
+      lastProgress = job.progress;
+      console.log(`${Math.round(job.progress * 100)}% done`);
+    }
+    if (job.status === "succeeded") {
+      console.log(`Finished: ${projectUrl}`);
+      return;
+    }
+    if (job.status === "failed" || job.status === "cancelled") {
+      console.error(`Run ${job.status}: ${job.error}`);
+      console.error(`Whatever finished is in ${projectUrl}`);
+      process.exitCode = 1;
+      return;
+    }
+    await sleep(POLL_INTERVAL);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});